@@ -56,13 +56,17 @@ if [[ "$DEV" == true ]]; then
   tsc --emitDeclarationOnly
   
   # esbuild part
-  esbuild --format=esm "./src/index.ts" --bundle --allow-overwrite --outfile="./lib/bundle.js" --external:$DEPENDENCIES
+  esbuild --format=esm "./src/index.ts" --bundle --define:__PAPIT_DEV__=true --allow-overwrite --outfile="./lib/bundle.js" --external:$DEPENDENCIES
+  esbuild --format=esm "./src/ssr.ts" --bundle --define:__PAPIT_DEV__=true --allow-overwrite --outfile="./lib/ssr.js" --external:$DEPENDENCIES
+  esbuild --format=esm "./src/precompile.ts" --bundle --platform=node --allow-overwrite --outfile="./lib/precompile.js" --external:$DEPENDENCIES
 elif [[ "$PROD" == true ]]; then 
   # typescript part : making sure we have types 
   tsc --emitDeclarationOnly -p tsconfig.prod.json
 
   # esbuild part
-  esbuild --format=esm "./src/index.ts" --bundle --minify --allow-overwrite --outfile="./lib/bundle.js" --tsconfig=tsconfig.prod.json --external:$DEPENDENCIES
+  esbuild --format=esm "./src/index.ts" --bundle --minify --define:__PAPIT_DEV__=false --allow-overwrite --outfile="./lib/bundle.js" --tsconfig=tsconfig.prod.json --external:$DEPENDENCIES
+  esbuild --format=esm "./src/ssr.ts" --bundle --minify --define:__PAPIT_DEV__=false --allow-overwrite --outfile="./lib/ssr.js" --tsconfig=tsconfig.prod.json --external:$DEPENDENCIES
+  esbuild --format=esm "./src/precompile.ts" --bundle --minify --platform=node --allow-overwrite --outfile="./lib/precompile.js" --tsconfig=tsconfig.prod.json --external:$DEPENDENCIES
 fi
 
 if [[ -f "./react/declerations.d.ts" ]] && [[ -d "./lib/react/" ]]; then 
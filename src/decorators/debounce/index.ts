@@ -2,6 +2,6 @@ export {
   debounce,
 } from "./decorator";
 
-export {
+export type {
   Options as DebounceOptions,
 } from "./types";
\ No newline at end of file
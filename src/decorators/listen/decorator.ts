@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Provides the `@listen` decorator for declaring event listeners
+ * on the host, the window, the document or elements of the render root.
+ *
+ * The decorator stores metadata (event type, target, listener options) that
+ * `CustomElement` uses to add the listeners on connect and remove them on disconnect.
+ *
+ * @example
+ * ```ts
+ * class MyMenu extends CustomElement {
+ *   @listen("keydown", { target: "document" })
+ *   onKeydown(event: KeyboardEvent) {
+ *     if (event.key === "Escape") this.open = false;
+ *   }
+ *
+ *   @listen("click", { target: "li[data-value]" })
+ *   onSelect(event: MouseEvent, item: HTMLLIElement) {
+ *     this.value = item.dataset.value;
+ *   }
+ * }
+ * ```
+ *
+ * @author Henry Pap (GitHub: @onkelhoy)
+ * @created 2025-10-19
+ */
+
+import { Setting } from "./types";
+import { ListenMeta } from "@element/types";
+import { ownMeta } from "@decorators/meta";
+
+/**
+ * A method decorator that calls the method for every `type` event on the given target.
+ *
+ * - `host` / `window` / `document` targets call the method with the event.
+ * - Any other target is a selector: the listener is added to the render root and the method
+ *   is called with the event and the matching element when the event comes from inside it.
+ *
+ * @param type The event type, e.g. `"click"`
+ * @param settings Partial `Setting`, the host is used when omitted.
+ */
+export function listen(type: string, settings: Partial<Setting> = {}): MethodDecorator {
+  return function (target: any, propertyKey: PropertyKey) {
+    const meta = ownMeta<ListenMeta>(target, "listenMeta");
+    meta.push({
+      propertyKey,
+      type,
+      target: settings.target ?? "host",
+      options: {
+        passive: settings.passive,
+        capture: settings.capture ?? false,
+        once: settings.once ?? false,
+      },
+    });
+  };
+}
@@ -0,0 +1,7 @@
+export {
+  listen,
+} from "./decorator";
+
+export type {
+  Setting as ListenDecoratorSetting,
+} from './types';
@@ -0,0 +1,24 @@
+
+export type Setting = {
+  /**
+   * Where to listen: the element itself (`"host"`, default), `"window"`, `"document"`,
+   * or a selector matched against the event path inside the render root (delegation).
+   */
+  target: "host" | "window" | "document" | (string & {});
+
+  /**
+   * Passed to `addEventListener`, the handler promises not to call `preventDefault()`.
+   */
+  passive: boolean;
+
+  /**
+   * Passed to `addEventListener`, listen in the capture phase.
+   * Needed to delegate events that do not bubble (`focus`, `blur`, `mouseenter`, ...).
+   */
+  capture: boolean;
+
+  /**
+   * Only handle the first event; listening starts again after the element is reconnected.
+   */
+  once: boolean;
+}
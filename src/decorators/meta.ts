@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Per-class metadata lists and maps for the decorators.
+ *
+ * Decorators run on the class prototype (or constructor). A list or map a base class stored there is inherited,
+ * so a subclass adding to it would change the base class and its other subclasses too.
+ *
+ * @author Henry Pap (GitHub: @onkelhoy)
+ * @created 2025-10-19
+ */
+
+/**
+ * The metadata list stored on the target itself, a subclass starts with a copy of its base class list.
+ * @param target The class prototype the decorator runs on
+ * @param key The property holding the list, e.g. `"watchMeta"`
+ */
+export function ownMeta<T>(target: any, key: string): T[] {
+  if (!Object.hasOwn(target, key)) target[key] = [...(target[key] ?? [])];
+  return target[key];
+}
+
+
+/**
+ * The metadata map stored on the target itself, a subclass starts with a copy of its base class map.
+ * @param target The class prototype the decorator runs on
+ * @param key The property holding the map, e.g. `"propertyMeta"`
+ */
+export function ownMetaMap<K, V>(target: any, key: string): Map<K, V> {
+  if (!Object.hasOwn(target, key)) target[key] = new Map(target[key] ?? []);
+  return target[key];
+}
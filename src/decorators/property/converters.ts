@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Attribute converters used by `@property` to turn attribute strings into
+ * property values and back.
+ *
+ * @details
+ * - Converters are looked up by the property `type` (the constructor, e.g. `Number`).
+ * - Built in: `String`, `Number`, `Boolean`, `BigInt`, `Date`, `URL`, `Array` (space- or comma-separated tokens)
+ *   and `Object` (JSON). Types without a converter fall back to JSON.
+ * - `registerConverter` adds or replaces the converter for a type, the `converter` property setting
+ *   overrides it for a single property.
+ * - `fromAttribute` may throw on malformed input, the decorator reports it as a warning
+ *   and leaves the property unchanged.
+ * - `toAttribute` returning `null` removes the attribute.
+ *
+ * @example
+ * ```ts
+ * registerConverter(Temporal.PlainDate, {
+ *   fromAttribute: value => Temporal.PlainDate.from(value),
+ *   toAttribute: value => value.toString(),
+ * });
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+export type AttributeConverter<T = any> = {
+  /** Parses the attribute string, only called for present attributes. */
+  fromAttribute(value: string, type?: Function): T;
+  /** Serializes the property value, `null` removes the attribute. */
+  toAttribute(value: T, type?: Function): string | null;
+}
+
+const json: AttributeConverter = {
+  fromAttribute: value => JSON.parse(value),
+  toAttribute: value => JSON.stringify(value),
+};
+
+const converters = new Map<Function, AttributeConverter>([
+  [String, {
+    fromAttribute: value => value,
+    toAttribute: value => String(value),
+  }],
+  [Number, {
+    fromAttribute: value => {
+      const number = Number(value);
+      if (value.trim() === "" || Number.isNaN(number)) throw new SyntaxError(`"${value}" is not a number`);
+      return number;
+    },
+    toAttribute: value => String(value),
+  }],
+  [Boolean, {
+    // documented false values: "false", "f", "0" and "" (case-insensitive), anything else is true
+    fromAttribute: value => !/^(false|f|0|)$/i.test(value.trim()),
+    toAttribute: value => String(value),
+  }],
+  [BigInt, {
+    fromAttribute: value => BigInt(value.trim().replace(/n$/, "")),
+    toAttribute: value => String(value),
+  }],
+  [Date, {
+    fromAttribute: value => {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) throw new SyntaxError(`"${value}" is not a date`);
+      return date;
+    },
+    toAttribute: (value: Date) => value.toISOString(),
+  }],
+  [URL, {
+    fromAttribute: value => new URL(value, typeof document !== "undefined" ? document.baseURI : undefined),
+    toAttribute: (value: URL) => value.href,
+  }],
+  [Array, {
+    fromAttribute: value => value.split(/[\s,]+/).filter(Boolean),
+    toAttribute: (value: unknown[]) => value.join(" "),
+  }],
+  [Object, json],
+]);
+
+/**
+ * Registers the converter used for properties of the given type.
+ */
+export function registerConverter<T>(type: Function, converter: AttributeConverter<T>) {
+  converters.set(type, converter);
+}
+
+/**
+ * Gets the converter for a type, JSON for types without one.
+ */
+export function getConverter(type: Function = String): AttributeConverter {
+  return converters.get(type) ?? json;
+}
+
+/**
+ * Creates a converter for a TypeScript enum (or any object of allowed values).
+ * Attributes may hold the member name or its value, the value is reflected.
+ * @throws {SyntaxError} From `fromAttribute` when the attribute matches no member.
+ */
+export function enumConverter<E extends Record<string, string | number>>(values: E): AttributeConverter<E[keyof E]> {
+  return {
+    fromAttribute: value => {
+      if (Object.hasOwn(values, value) && isNaN(Number(value))) return values[value] as E[keyof E];
+      const member = Object.values(values).find(member => String(member) === value);
+      if (member === undefined) throw new SyntaxError(`"${value}" is not one of ${Object.keys(values).filter(key => isNaN(Number(key))).join(", ")}`);
+      return member as E[keyof E];
+    },
+    toAttribute: value => String(value),
+  };
+}
@@ -6,15 +6,23 @@
  * @details
  * - Properties can be bound to attributes for automatic synchronization.
  * - Internal update prevention avoids infinite reflection loops.
- * - Supports type conversion for String, Number, Boolean, and JSON-serializable values.
+ * - Converts attribute values through converters registered per type (see `converters.ts`),
+ *   or the property's own `converter`. Unparsable attributes are reported as warnings.
  * - Includes deep equality checking to avoid redundant updates.
+ * - `notify` fires a `${property}-changed` event (kebab-case) (`detail: { value, oldValue }`) after changes.
+ * - Properties can provide or consume a context (`context-request` protocol) across shadow roots.
+ * - `observer` and `@watch` methods are called with the old and new value after changes.
  *
  * @author Henry Pap (GitHub: @onkelhoy)
  * @created 2025-08-11
  */
 
-import { Setting } from "./types";
-import { PropertyMeta } from "@element/types";
+import { ChangedEventDetail, Setting } from "./types";
+import { getConverter } from "./converters";
+import { ContextMeta, PropertyMeta } from "@element/types";
+import { updateContext } from "@functions/context";
+import { ownMeta, ownMetaMap } from "@decorators/meta";
+import { changedEventName } from "@functions/part/events";
 
 const defaultSettings: Partial<Setting> = {
   readonly: false,
@@ -70,12 +78,16 @@ function define(target: any, propertyKey: PropertyKey, _settings: Partial<Settin
   let attributeName:null|string = null;
   if (settings.attribute)
   {
-    const constructor = target.constructor as any;
-    if (!constructor.observedAttributes) constructor.observedAttributes = [];
+    // could enhance with allowing Elements to be but I think at that point bigger issues would exists 
+    if (!settings.converter && settings.type && /(element|node)$/i.test(settings.type.name))
+    {
+      throw new Error("[error]: cannot handle elements as properties");
+    }
+
     attributeName = typeof settings.attribute === "string" ? settings.attribute : String(propertyKey);
-    constructor.observedAttributes.push(attributeName);
+    ownMeta<string>(target.constructor, "observedAttributes").push(attributeName);
 
-    const meta: PropertyMeta = target.propertyMeta ??= new Map();
+    const meta: PropertyMeta = ownMetaMap(target, "propertyMeta");
     meta.set(attributeName, function (this: any, newValue, oldValue) {
       if (internalUpdate)
       {
@@ -83,8 +95,20 @@ function define(target: any, propertyKey: PropertyKey, _settings: Partial<Settin
         return;
       }
 
-      const nvalue = parseAttributeValue(newValue, settings.type);
-      const ovalue = parseAttributeValue(oldValue, settings.type);
+      let nvalue: unknown;
+      try 
+      {
+        nvalue = parseAttributeValue(newValue, settings);
+      }
+      catch (error) 
+      {
+        console.warn(`[warn] property: could not parse attribute "${attributeName}" of <${this.localName}>, "${String(propertyKey)}" is left unchanged`, error);
+        return;
+      }
+
+      // an old value that did not parse never reached the property
+      let ovalue: unknown = undefined;
+      try { ovalue = parseAttributeValue(oldValue, settings); } catch {}
 
       if (sameValue(nvalue, ovalue)) return;
 
@@ -93,6 +117,33 @@ function define(target: any, propertyKey: PropertyKey, _settings: Partial<Settin
     });
   }
 
+  let contextKey: unknown = undefined;
+  if (settings.context)
+  {
+    const context = settings.context === true ? {} : settings.context;
+    const role = context.role ?? "provider";
+    if (role === "provider") contextKey = context.key ?? propertyKey;
+
+    const meta = ownMeta<ContextMeta>(target, "contextMeta");
+    meta.push({ 
+      propertyKey, 
+      role,
+      key: context.key ?? propertyKey, 
+      subscribe: context.subscribe ?? true,
+    });
+  }
+
+  let notify: { event: string; bubbles: boolean; composed: boolean } | null = null;
+  if (settings.notify)
+  {
+    const options = typeof settings.notify === "object" ? settings.notify : {};
+    notify = {
+      event: typeof settings.notify === "string" ? settings.notify : options.event ?? changedEventName(String(propertyKey)),
+      bubbles: options.bubbles ?? false,
+      composed: options.composed ?? false,
+    };
+  }
+
   Object.defineProperty(target, propertyKey, {
     configurable: settings.configurable ?? true,
     enumerable: settings.enumerable ?? true,
@@ -122,13 +173,17 @@ function define(target: any, propertyKey: PropertyKey, _settings: Partial<Settin
       if (attributeName && !internalUpdate)
       {
         internalUpdate = true;
-        if ((value === null || value === undefined || value === false) && settings.removeAttribute)
+        const attributeValue = (value === null || value === undefined || value === false) && settings.removeAttribute
+          ? null
+          : stringifyPropertyValue(value, settings);
+
+        if (attributeValue === null)
         {
           this.removeAttribute(attributeName);
         } 
         else 
         {
-          this.setAttribute(attributeName, stringifyPropertyValue(value, settings.type));
+          this.setAttribute(attributeName, attributeValue);
         }
       }
       internalUpdate = false;
@@ -137,8 +192,27 @@ function define(target: any, propertyKey: PropertyKey, _settings: Partial<Settin
         settings.after.call(this, value, oldVal, isInitial, isAttributeUpdate);
       }
 
-      if (!isInitial && settings.rerender && typeof this.requestUpdate === 'function') {
-        this.requestUpdate();
+      if (settings.observer) {
+        settings.observer.call(this, value, oldVal);
+      }
+
+      if (contextKey !== undefined) {
+        updateContext(this, contextKey, this[propertyKey]);
+      }
+
+      // `@watch` methods of a CustomElement
+      if (typeof this.notifyWatchers === 'function') {
+        this.notifyWatchers(propertyKey, oldVal, value);
+      }
+
+      // the initial value is recorded too, the first render sees it as changed
+      if (settings.rerender && typeof this.requestUpdate === 'function') {
+        this.requestUpdate(propertyKey, oldVal);
+      }
+
+      if (!isInitial && notify) {
+        const detail: ChangedEventDetail = { value, oldValue: oldVal };
+        this.dispatchEvent(new CustomEvent(notify.event, { detail, bubbles: notify.bubbles, composed: notify.composed }));
       }
     },
   });
@@ -148,44 +222,20 @@ function define(target: any, propertyKey: PropertyKey, _settings: Partial<Settin
 // helper functions 
 /**
  * Converts an attribute string value into the appropriate type.
+ * @throws When the converter cannot parse the value.
  */
-function parseAttributeValue(value:string|null|undefined, type: Function = String) {
+function parseAttributeValue(value:string|null|undefined, settings: Partial<Setting>) {
   if (value === null || value === undefined) return value;
 
-  switch (type.name)
-  {
-    case "String":
-      return String(value);
-    case "Number":
-      return Number(value);
-    case "Boolean": {
-      if (/(false|f|0|)/i.test(value)) return false;
-      return !!value; 
-    }
-    default: {
-      // could enhance with allowing Elements to be but I think at that point bigger issues would exists 
-      if (/(element|node)$/i.test(type.name))
-      {
-        throw new Error("[error]: cannot handle elements as properties");
-      }
-
-      return JSON.parse(value);
-    }
-  }
+  const fromAttribute = settings.converter?.fromAttribute ?? getConverter(settings.type).fromAttribute;
+  return fromAttribute(value, settings.type);
 }
 /**
- * Converts a property value into a string suitable for an attribute.
+ * Converts a property value into a string suitable for an attribute, `null` removes it.
  */
-function stringifyPropertyValue(value: any, type: Function = String) {
-  switch (type.name)
-  {
-    case "String":
-    case "Number":
-    case "Boolean":
-      return String(value);
-    default:
-      return JSON.stringify(value);
-  }
+function stringifyPropertyValue(value: any, settings: Partial<Setting>) {
+  const toAttribute = settings.converter?.toAttribute ?? getConverter(settings.type).toAttribute;
+  return toAttribute(value, settings.type);
 }
 
 /**
@@ -206,10 +256,19 @@ function sameValue(a:any, b:any, maxReqursiveSteps = 20, reqursiveSteps = 0) {
     case "string":
     case "number":
     case "boolean":
+    case "bigint":
       return a === b;
     
     case "object": 
     {
+      if (a === b) return true;
+      if (a === null || b === null) return false;
+
+      // promises, observables, dates etc. have no own keys to compare, only identity tells them apart
+      const prototype = Object.getPrototypeOf(a);
+      if (prototype !== Object.getPrototypeOf(b)) return false;
+      if (prototype !== Object.prototype && prototype !== null && !Array.isArray(a)) return false;
+
       if (Array.isArray(a))
       {
         if (!Array.isArray(b)) return false;
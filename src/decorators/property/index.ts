@@ -3,5 +3,15 @@ export {
 } from "./decorator";
 
 export {
+  type AttributeConverter,
+  registerConverter,
+  getConverter,
+  enumConverter,
+} from "./converters";
+
+export type {
   Setting as PropertyDecoratorSetting,
+  ContextSetting,
+  NotifySetting,
+  ChangedEventDetail,
 } from './types';
\ No newline at end of file
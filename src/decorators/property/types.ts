@@ -1,3 +1,5 @@
+import type { AttributeConverter } from "./converters";
+
 export type Setting<T = any> = {
   /**
    * Enables verbose logging for this property — useful during development or debugging.
@@ -17,15 +19,21 @@ export type Setting<T = any> = {
   rerender: boolean;
 
   /**
-   * Fires a custom event (e.g., `${property}-changed`) when the property changes.
+   * Fires a custom event (e.g., `${property}-changed`) when the property changes,
+   * with `{ value, oldValue }` as its `detail`.
+   * - `true`: fires `${property}-changed`, kebab-case (`selectedIndex` → `selected-index-changed`).
+   * - `string`: fires an event with that name.
+   * - object: see `NotifySetting`.
    */
-  notify: boolean;
+  notify: boolean | string | Partial<NotifySetting>;
 
   /**
    * Marks the property as part of the component's context system.
    * Useful for dependency injection or shared state.
+   * - `true`: provides the property's value to descendants, keyed by the property name.
+   * - object: see `ContextSetting`, e.g. `{ role: "consumer", subscribe: true }`.
    */
-  context: boolean;
+  context: boolean | Partial<ContextSetting>;
 
   /**
    * Sync this property with an HTML attribute.
@@ -47,11 +55,17 @@ export type Setting<T = any> = {
   reflect: boolean;
 
   /**
-   * A type function (e.g., `String`, `Number`, `Boolean`) used to coerce attribute values into the desired type.
+   * A type function (e.g., `String`, `Number`, `Boolean`, `Date`) used to pick the attribute converter (see `registerConverter`).
    * For example, turns `"123"` into `123` if `type: Number`.
    */
   type: Function;
 
+  /**
+   * Converts between the attribute string and the property value, overriding the converter registered for `type`.
+   * A missing side falls back to the registered one, `toAttribute` returning `null` removes the attribute.
+   */
+  converter: Partial<AttributeConverter<T>>;
+
   /**
    * The default value to assign to the property when the component initializes.
    */
@@ -86,8 +100,8 @@ export type Setting<T = any> = {
   maxReqursiveSteps: number;
 
   /**
-   * Lifecycle hook triggered when the property changes.
-   * Receives the new and previous values.
+   * Lifecycle hook triggered after the property changed (the initial value included), called with the element as `this`.
+   * Receives the new and previous values. See `@watch` for watching from a method.
    */
   observer(newVal: T, oldVal: T): void;
 
@@ -121,4 +135,45 @@ export type Setting<T = any> = {
    * Useful for triggering side effects like re-renders or DOM updates.
    */
   after(value: T, old: T, initial: boolean, attributeUpdate: boolean): void;
+}
+
+export type ContextSetting = {
+  /**
+   * The context key, defaults to the property name.
+   * Use a string or `Symbol.for(...)` to share it between bundles.
+   */
+  key: unknown;
+
+  /**
+   * `provider` answers requests from descendants with this property's value,
+   * `consumer` sets this property from the closest provider above it (defaults to `provider`).
+   */
+  role: "provider" | "consumer";
+
+  /**
+   * Consumers only: keep receiving the provider's changes while connected (defaults to `true`).
+   */
+  subscribe: boolean;
+}
+
+export type NotifySetting = {
+  /**
+   * The event name, defaults to `${property}-changed` in kebab-case.
+   */
+  event: string;
+
+  /**
+   * Whether the event bubbles (defaults to `false`).
+   */
+  bubbles: boolean;
+
+  /**
+   * Whether the event crosses shadow boundaries (defaults to `false`).
+   */
+  composed: boolean;
+}
+
+export type ChangedEventDetail<T = any> = {
+  value: T;
+  oldValue: T;
 }
\ No newline at end of file
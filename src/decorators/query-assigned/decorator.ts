@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Provides the `@queryAssignedElements` and `@queryAssignedNodes` decorators
+ * for reading the content slotted into a `CustomElement`.
+ *
+ * The decorators store metadata (slot name, filter, callbacks) that `CustomElement`
+ * uses after each render, and on every `slotchange`, to keep the decorated properties current.
+ *
+ * @author Henry Pap (GitHub: @onkelhoy)
+ * @created 2025-10-19
+ */
+
+import { Setting } from "./types";
+import { AssignedMeta } from "@element/types";
+import { ownMeta } from "@decorators/meta";
+
+/**
+ * A property decorator that keeps the property set to the elements assigned to a slot.
+ *
+ * Can be used in two forms:
+ * - `@queryAssignedElements` with no arguments → elements of the default slot
+ * - `@queryAssignedElements({ slot: 'footer', selector: 'button', flatten: true, rerender: true })`
+ *
+ * @template T The type of the assigned elements (defaults to `HTMLElement`).
+ * @param settings Partial `Setting<T>`, or omitted.
+ */
+export function queryAssignedElements<T extends Element = HTMLElement>(settings: Partial<Setting<T>>): PropertyDecorator;
+
+/**
+ * Overload for decorator used without arguments.
+ * @param target The prototype of the class.
+ * @param propertyKey The name of the property.
+ */
+export function queryAssignedElements(target: Object, propertyKey: PropertyKey): void;
+
+export function queryAssignedElements<T extends Element = HTMLElement>(
+  targetOrSettings: Object | Partial<Setting<T>>,
+  propertyKey?: PropertyKey
+): void | PropertyDecorator {
+  // @queryAssignedElements — no args
+  if (propertyKey) {
+    define(targetOrSettings, propertyKey, {}, true);
+    return;
+  }
+
+  return function (target: Object, key: PropertyKey) {
+    define(target, key, targetOrSettings as Partial<Setting<T>>, true);
+  };
+}
+
+/**
+ * A property decorator that keeps the property set to the nodes (text included) assigned to a slot.
+ *
+ * Can be used in two forms:
+ * - `@queryAssignedNodes` with no arguments → nodes of the default slot
+ * - `@queryAssignedNodes({ slot: 'footer', flatten: true, load: nodes => {} })`
+ *
+ * @param settings Partial `Setting<Node>` (`selector` is ignored), or omitted.
+ */
+export function queryAssignedNodes(settings: Partial<Setting<Node>>): PropertyDecorator;
+
+/**
+ * Overload for decorator used without arguments.
+ * @param target The prototype of the class.
+ * @param propertyKey The name of the property.
+ */
+export function queryAssignedNodes(target: Object, propertyKey: PropertyKey): void;
+
+export function queryAssignedNodes(
+  targetOrSettings: Object | Partial<Setting<Node>>,
+  propertyKey?: PropertyKey
+): void | PropertyDecorator {
+  // @queryAssignedNodes — no args
+  if (propertyKey) {
+    define(targetOrSettings, propertyKey, {}, false);
+    return;
+  }
+
+  return function (target: Object, key: PropertyKey) {
+    define(target, key, targetOrSettings as Partial<Setting<Node>>, false);
+  };
+}
+
+function define(target: any, propertyKey: PropertyKey, settings: Partial<Setting<any>>, elements: boolean): void {
+  const meta = ownMeta<AssignedMeta>(target, "assignedMeta");
+  meta.push({
+    propertyKey,
+    elements,
+    slot: settings.slot ?? "",
+    selector: elements ? settings.selector : undefined,
+    flatten: settings.flatten ?? false,
+    rerender: settings.rerender ?? false,
+    load: settings.load,
+  });
+}
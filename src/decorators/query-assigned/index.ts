@@ -0,0 +1,8 @@
+export {
+  queryAssignedElements,
+  queryAssignedNodes,
+} from "./decorator";
+
+export type {
+  Setting as QueryAssignedDecoratorSetting,
+} from './types';
@@ -0,0 +1,26 @@
+export type Setting<T extends Node> = {
+  /**
+   * Name of the slot to read, the unnamed (default) slot when omitted.
+   */
+  slot: string;
+
+  /**
+   * Only keep the assigned elements matching this selector (`@queryAssignedElements` only).
+   */
+  selector: string;
+
+  /**
+   * Include the nodes assigned to slots that are themselves slotted (`assignedNodes({ flatten: true })`).
+   */
+  flatten: boolean;
+
+  /**
+   * Request an update when the assigned nodes change.
+   */
+  rerender: boolean;
+
+  /**
+   * Called with the assigned nodes whenever they change (and once when first found).
+   */
+  load(nodes: T[]): void;
+}
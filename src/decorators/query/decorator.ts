@@ -1,10 +1,10 @@
 /**
- * @fileoverview Provides the `@query` decorator for automatically wiring
+ * @fileoverview Provides the `@query` and `@queryAll` decorators for automatically wiring
  * up DOM element references in `CustomElement` subclasses.
  *
- * The decorator stores metadata (selector, load callback, property key)
+ * The `@query` and `@queryAll` decorators store metadata (selector, load callback, property key)
  * that is later used by `CustomElement`'s `findQueries()` method to
- * populate decorated properties.
+ * populate decorated properties after each render.
  *
  * @author Henry Pap (GitHub: @onkelhoy)
  * @created 2025-08-11
@@ -12,15 +12,16 @@
 
 import { Setting } from "./types";
 import { QueryMeta } from "@element/types";
+import { ownMeta } from "@decorators/meta";
 
 /**
  * A property decorator that registers a DOM query for the decorated property.
  *
  * Can be used in two forms:
  * - `@query` with no arguments → property name is used as selector
- * - `@query('selector')` or `@query({ selector: '...', load: el => {} })`
+ * - `@query('selector')` or `@query({ selector: '...', cache: false, load: el => {} })`
  *
- * When the component updates, the matching element is assigned to the property.
+ * When the component updates, the matching element (or `null`) is assigned to the property.
  *
  * @template T The type of the element being queried (defaults to `HTMLElement`).
  * @param settings Either a selector string, a partial `Setting<T>`, or omitted.
@@ -40,7 +41,7 @@ export function query<T extends Element = HTMLElement>(
 ): void | PropertyDecorator {
   // @query — no args
   if (propertyKey) {
-    define<T>(targetOrSettings as Object, propertyKey, {});
+    define(targetOrSettings as Object, propertyKey, {});
     return; // void → valid for this overload
   }
 
@@ -51,7 +52,7 @@ export function query<T extends Element = HTMLElement>(
       : (targetOrSettings as Partial<Setting<T>>);
 
   return function (target: Object, key: PropertyKey) {
-    define<T>(
+    define(
       target, 
       key, 
       settings,
@@ -59,10 +60,63 @@ export function query<T extends Element = HTMLElement>(
   };
 }
 
-function define<T extends Element = HTMLElement>(target: any, propertyKey: PropertyKey, settings: Partial<Setting<T>>): void {
+/**
+ * A property decorator that registers a DOM query for all matching elements of the decorated property.
+ *
+ * Can be used in two forms:
+ * - `@queryAll` with no arguments → property name is used as selector
+ * - `@queryAll('selector')` or `@queryAll({ selector: '...', cache: false, load: elements => {} })`
+ *
+ * When the component updates, the array of matching elements is assigned to the property.
+ *
+ * @template T The type of the elements being queried (defaults to `HTMLElement`).
+ * @param settings Either a selector string, a partial `Setting<T[]>`, or omitted.
+ */
+export function queryAll<T extends Element = HTMLElement>(settings: string | Partial<Setting<T[]>>): PropertyDecorator;
+
+/**
+ * Overload for decorator used without arguments.
+ * @param target The prototype of the class.
+ * @param propertyKey The name of the property.
+ */
+export function queryAll(target: Object, propertyKey: PropertyKey): void;
+
+export function queryAll<T extends Element = HTMLElement>(
+  targetOrSettings: Object | string | Partial<Setting<T[]>>,
+  propertyKey?: PropertyKey
+): void | PropertyDecorator {
+  // @queryAll — no args
+  if (propertyKey) {
+    define(targetOrSettings as Object, propertyKey, {}, true);
+    return;
+  }
+
+  const settings: Partial<Setting<T[]>> =
+    typeof targetOrSettings === "string"
+      ? { selector: targetOrSettings }
+      : (targetOrSettings as Partial<Setting<T[]>>);
+
+  return function (target: Object, key: PropertyKey) {
+    define(target, key, settings, true);
+  };
+}
+
+function define(target: any, propertyKey: PropertyKey, settings: Partial<Setting<any>>, all = false): void {
   const selector = String(settings.selector ?? propertyKey);
-  
-  // Always store on target
-  const meta: QueryMeta[] = target.queryMeta ??= [];
-  meta.push({ selector, load: settings.load, propertyKey });
-}
\ No newline at end of file
+  const cache = settings.cache ?? true;
+
+  const meta = ownMeta<QueryMeta>(target, "queryMeta");
+  meta.push({ selector, all, cache, load: settings.load, propertyKey });
+
+  if (cache) return;
+
+  // uncached: resolve against the current DOM on every access
+  Object.defineProperty(target, propertyKey, {
+    configurable: true,
+    enumerable: true,
+    get() {
+      return all ? Array.from(this.querySelectorAll(selector)) : this.querySelector(selector);
+    },
+    set() {},
+  });
+}
@@ -1,8 +1,9 @@
 export {
   query,
+  queryAll,
 } from "./decorator";
 
-export {
+export type {
   Setting as QueryDecoratorSetting,
 } from './types';
 
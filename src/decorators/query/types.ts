@@ -1,4 +1,12 @@
-export type Setting<T extends Element> = {
+
+export type Setting<T> = {
   selector: string;
+
+  /**
+   * Keep the result on the property, re-resolved after each render (default).
+   * With `false` the query runs on every access of the property.
+   */
+  cache: boolean;
+
   load(element: T): void;
-}
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Provides the `@watch` decorator for calling a method when
+ * specific `@property` properties change.
+ *
+ * The decorator stores metadata (watched properties, timing) that `CustomElement`
+ * uses when a property setter reports a change.
+ *
+ * @example
+ * ```ts
+ * class MyCounter extends CustomElement {
+ *   @property({ type: Number }) count = 0;
+ *   @property() label = "";
+ *
+ *   @watch("count", "label", { waitUntilFirstUpdate: true })
+ *   onChange(oldValue: unknown, newValue: unknown, name: PropertyKey) {
+ *     console.log(`${String(name)}: ${oldValue} → ${newValue}`);
+ *   }
+ * }
+ * ```
+ *
+ * @author Henry Pap (GitHub: @onkelhoy)
+ * @created 2025-10-19
+ */
+
+import { Setting } from "./types";
+import { WatchMeta } from "@element/types";
+import { ownMeta } from "@decorators/meta";
+
+/**
+ * A method decorator that calls the method with `(oldValue, newValue, name)` when one of the properties changes.
+ * Only properties declared with `@property` report their changes.
+ *
+ * @param args The property names to watch, optionally followed by a partial `Setting`.
+ */
+export function watch(...args: Array<PropertyKey | Partial<Setting>>): MethodDecorator {
+  const last = args[args.length - 1];
+  const settings: Partial<Setting> = typeof last === "object" ? last : {};
+  const properties = args.filter((arg): arg is PropertyKey => typeof arg !== "object");
+
+  return function (target: any, propertyKey: PropertyKey) {
+    if (properties.length === 0)
+    {
+      throw new Error(`[error] watch: "${String(propertyKey)}" does not name any property to watch`);
+    }
+
+    const meta = ownMeta<WatchMeta>(target, "watchMeta");
+    meta.push({
+      propertyKey,
+      properties,
+      sync: settings.sync ?? false,
+      waitUntilFirstUpdate: settings.waitUntilFirstUpdate ?? false,
+    });
+  };
+}
@@ -0,0 +1,7 @@
+export {
+  watch,
+} from "./decorator";
+
+export type {
+  Setting as WatchDecoratorSetting,
+} from './types';
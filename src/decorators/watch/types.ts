@@ -0,0 +1,13 @@
+
+export type Setting = {
+  /**
+   * Skip the changes made before the element rendered for the first time (including the initial values).
+   */
+  waitUntilFirstUpdate: boolean;
+
+  /**
+   * Call the method from the property setter, on every change.
+   * By default calls are batched: once per update cycle for each changed property, before `willUpdate`.
+   */
+  sync: boolean;
+}
@@ -4,19 +4,32 @@
  *
  * @details
  * **Core Features:**
- * - **Declarative Rendering** — Uses a `render()` method that can return either a string or an `Element`.
+ * - **Declarative Rendering** — Uses a `render()` method that can return either a string or an `html` result.
  * - **Template Diffing** — Backed by `TemplateInstance` for efficient updates without replacing the whole DOM.
- * - **Debounced Updates** — Integrates `requestUpdate()` with configurable debounce delay.
+ * - **Batched Updates** — `requestUpdate()` queues the element, updates run in the next microtask (or frame),
+ *   parents before children; `updateComplete` resolves once rendered.
+ * - **Changed Properties** — `shouldUpdate` / `willUpdate` / `updated` receive the changed properties and their old values.
  * - **Reactive Attributes** — Supports observed attributes and property decorators for sync between DOM and JS.
- * - **Query Decorators** — Automatically resolves `@query`-decorated fields after each render.
+ * - **Query Decorators** — Automatically resolves `@query` / `@queryAll` fields after each render,
+ *   `@queryAssignedElements` / `@queryAssignedNodes` fields also on every `slotchange`.
+ * - **Event Decorators** — Adds `@listen` listeners on connect and removes them on disconnect.
+ * - **Watchers** — Calls `@watch` methods when their properties change, batched per update or synchronously.
+ * - **Hydration** — Adopts server-rendered Declarative Shadow DOM instead of rendering it again.
+ * - **Signals** — Signals read in `render()` are tracked, a change to any of them requests an update.
+ * - **Styles** — `static styles` are adopted as shared constructable stylesheets, with a `<style>` fallback.
+ * - **Light DOM** — `shadow: false` renders into the element itself, styles are scoped to the tag name
+ *   and authored children are moved into the template's `<slot>` elements.
+ * - **Controllers** — `addController()` plugs reusable behaviour into the lifecycle (`hostConnected`, `hostUpdate`, ...).
+ * - **Context** — `@property({ context })` properties provide to, or consume from, other elements across shadow roots.
  * - **Lifecycle Hooks**:
  *   - `firstRender()` — Called once after the initial render.
  *   - `connectedCallback()` / `disconnectedCallback()` — Standard custom element lifecycle.
  *
  * **Render Flow:**
- * 1. `connectedCallback()` triggers the first `update()`.
- * 2. `update()` renders the template and updates only changed parts.
- * 3. Decorator queries are resolved after each render.
+ * 1. `connectedCallback()` renders right away, later `requestUpdate()` calls are batched by the scheduler.
+ * 2. `performUpdate()` asks `shouldUpdate(changed)`, then calls the `@watch` methods and `willUpdate(changed)`.
+ * 3. `update()` renders the template and updates only changed parts.
+ * 4. Decorator queries are resolved after each render, then `updated(changed)` is called.
  *
  * @example
  * ```ts
@@ -36,10 +49,14 @@
  * Henry Pap (GitHub: @onkelhoy)
  */
 
-import { html, getValues } from "@html";
-import { debounceFn } from "@functions/debounce";
+import { html, getValues, TemplateRoot } from "@html";
 import { TemplateInstance, partFactory } from '@functions/part';
-import { PropertyMeta, QueryMeta, Setting } from "./types";
+import { Computation } from "@functions/signal/signal";
+import { consume, provide } from "@functions/context";
+import { CSSInput, CSSResult, scopeCSS, supportsAdoptingStyleSheets, toCSSResult } from "@functions/css";
+import { createStyleElement } from "@functions/css/css";
+import { frameScheduler, microtaskScheduler, Scheduler } from "@functions/scheduler";
+import { AssignedMeta, ChangedProperties, ContextMeta, ListenMeta, PropertyMeta, QueryMeta, ReactiveController, ReactiveControllerHost, Setting, WatchMeta } from "./types";
 
 const defaultSetting: ShadowRootInit & Partial<Setting> = {
   mode: "open",
@@ -50,7 +67,7 @@ const defaultSetting: ShadowRootInit & Partial<Setting> = {
  * Uses a `TemplateInstance` for efficient updates without re-rendering the entire DOM.
  * Supports reactive attributes, property decorators, and query decorators.
  */
-export class CustomElement extends HTMLElement {
+export class CustomElement extends HTMLElement implements ReactiveControllerHost {
 
   /**
    * List of attributes to observe for changes.
@@ -59,14 +76,15 @@ export class CustomElement extends HTMLElement {
   static observedAttributes = [];
 
   /**
-   * Style string(s)
+   * Style string(s) or `css` results.
+   * Collected along the class hierarchy (base classes first), `styles` before `style`.
    */
-  static style: string;
-  static styles: string[];
+  static style: CSSInput;
+  static styles: CSSInput | CSSInput[];
 
   /**
    * Returns the root node into which content is rendered:
-   * - If `templateInstance` exists, returns its root element
+   * - If `templateInstance` exists and has a root element (not a fragment), returns it
    * - Else, if the element has a shadow root, returns it
    * - Else, returns the element itself
    */
@@ -77,11 +95,12 @@ export class CustomElement extends HTMLElement {
   }
 
   private styleElement: HTMLStyleElement|null = null;
+  private adoptedSheets: CSSStyleSheet[] = [];
 
   /**
    * Creates a new custom element.
    * @param shadowRootInit Options for `attachShadow`, merged with defaults.
-   *                       Can also include custom settings such as `requestUpdateTimeout`.
+   *                       Can also include custom settings such as `scheduler`.
    */
   constructor(shadowRootInit?: Partial<ShadowRootInit> & Partial<Setting>) {
     super();
@@ -90,23 +109,45 @@ export class CustomElement extends HTMLElement {
       ...(shadowRootInit ?? {})
     }
 
-    this.attachShadow(settings);
-    this.requestUpdate = debounceFn(this.update, settings.requestUpdateTimeout ?? 50);
+    // a declarative shadow root (server rendering) is already attached, attachShadow would empty it
+    if (settings.shadow === false) this.lightDOM = true;
+    else if (this.shadowRoot) this.serverRendered = true;
+    else this.attachShadow(settings);
+
+    this.scheduler = settings.scheduler === "frame" ? frameScheduler : microtaskScheduler;
+    this.requestUpdateTimeout = settings.requestUpdateTimeout ?? 0;
   }
 
   /**
    * Lifecycle: called when element is added to the DOM.
-   * Triggers the first update/render.
+   * Connects context properties and controllers, then renders right away (also when reconnected).
    */
   connectedCallback() {
-    this.update();
+    this.connectContext();
+    this.connectListeners();
+    this.controllersConnected = true;
+    this.controllers.forEach(controller => controller.hostConnected?.());
+    this.templateInstance?.setConnected(true);
+    this.requestUpdate();
+    this.performUpdate();
   }
 
   /**
    * Lifecycle: called when element is removed from the DOM.
-   * Empty by default, but subclasses can override.
+   * Notifies directives of the disconnect, releases the signals read by `render()`
+   * stops providing/consuming context, removes `@listen` listeners and disconnects controllers,
+   * subclasses overriding it should call `super.disconnectedCallback()`.
    */
-  disconnectedCallback() {}
+  disconnectedCallback() {
+    this.controllersConnected = false;
+    this.controllers.forEach(controller => controller.hostDisconnected?.());
+    this.templateInstance?.setConnected(false);
+    this.renderComputation?.dispose();
+    this.contextCleanup.forEach(cleanup => cleanup());
+    this.contextCleanup = [];
+    this.listenCleanup.forEach(cleanup => cleanup());
+    this.listenCleanup = [];
+  }
 
   /**
    * Lifecycle: called when an observed attribute changes.
@@ -134,10 +175,14 @@ export class CustomElement extends HTMLElement {
    * Renders (or updates) the template into the root.
    * - On first run, appends the new template and calls `firstRender`.
    * - On subsequent runs, updates the existing `TemplateInstance` with new values.
-   * - Also resolves any `@query`-decorated properties.
+   * - Also resolves any `@query` / `@queryAll` properties, clearing removed elements.
+   * - Tracks the signals `render()` reads, a change to any of them calls `requestUpdate()`.
+   *   Committing the values is tracked too, so signals read by directives while updating their parts
+   *   (e.g. `repeat` callbacks translating their items) count as well.
    */
   update() {
-    let newRoot = this.render();
+    this.renderComputation ??= new Computation(() => this.requestUpdate());
+    let newRoot = this.renderComputation.run(() => this.render());
     if (typeof newRoot === "string") newRoot = html`${newRoot}`;
 
     if (!newRoot) throw new Error("[error] core: no element returned from render");
@@ -146,104 +191,570 @@ export class CustomElement extends HTMLElement {
 
     if (this.templateInstance == null)
     {
-      this.root.append(newRoot);
-      this.templateInstance = new TemplateInstance(newRoot, partFactory);
+      this.templateInstance = this.renderComputation.include(() => this.hydrate(newRoot, newValues));
+      const hydrated = this.templateInstance != null;
+      if (this.templateInstance == null)
+      {
+        // parts are found before appending, a fragment root is empty afterwards
+        const target = this.root;
+        if (this.lightDOM) this.authoredChildren = Array.from(this.childNodes);
+        this.templateInstance = new TemplateInstance(newRoot, partFactory, { host: this });
+        target.append(newRoot);
+      }
       this.firstRender();
       this.dispatchEvent(new Event("first-render"));
+
+      // hydration already applied the values
+      if (hydrated)
+      {
+        this.findQueries();
+        this.findAssigned();
+        return;
+      }
     }
 
-    if (!newValues) return void console.error("[error] values could not be found")
+    if (!newValues) return void console.error(`[error] core: <${this.localName}> values could not be found, render() has to return an html template`)
 
-    this.templateInstance.update(newValues);
+    const instance = this.templateInstance;
+    this.renderComputation.include(() => instance.update(newValues));
+    // after the commit, slots inside nested or conditional templates exist (or are gone) by now
+    if (this.authoredChildren) projectChildren(this, this.authoredChildren);
 
     this.findQueries();
+    this.findAssigned();
   }
 
   /**
    * Requests an update to the DOM.
-   * The update is debounced according to `requestUpdateTimeout`.
+   * Requests are batched, the update runs once in the next microtask (or frame, see the `scheduler` setting).
+   * @param name A property that changed, recorded for the changed-properties hooks
+   * @param oldValue The property's value before the change
+   * @returns `updateComplete`
+   */
+  requestUpdate(name?: PropertyKey, oldValue?: unknown): Promise<boolean> {
+    // keep the value from before the first change in this update
+    if (name !== undefined && !this.changedProperties.has(name)) this.changedProperties.set(name, oldValue);
+
+    if (!this.isUpdatePending)
+    {
+      this.isUpdatePending = true;
+      this.updatePromise = new Promise(resolve => this.resolveUpdate = resolve);
+
+      if (this.requestUpdateTimeout > 0) setTimeout(() => this.scheduler.enqueue(this), this.requestUpdateTimeout);
+      else this.scheduler.enqueue(this);
+    }
+
+    return this.updateComplete;
+  }
+
+  /**
+   * Resolves once no update is pending anymore, `true` when the last update ran (`false` when `shouldUpdate` skipped it).
+   * An update requested while rendering is awaited too.
+   */
+  get updateComplete(): Promise<boolean> {
+    return this.updatePromise.then(result => this.isUpdatePending ? this.updateComplete : result);
+  }
+
+  /**
+   * Runs a pending update, called by the scheduler.
+   * While disconnected the update stays pending until `connectedCallback` renders.
+   */
+  performUpdate() {
+    if (!this.isUpdatePending || !this.isConnected) return;
+
+    const changed = this.changedProperties;
+    const resolve = this.resolveUpdate;
+    let result = false;
+    try 
+    {
+      // still pending: changes made in watchers and willUpdate are part of this update
+      const render = this.shouldUpdate(changed);
+      if (render)
+      {
+        this.runWatchers(changed);
+        this.willUpdate(changed);
+      }
+
+      this.changedProperties = new Map();
+      this.isUpdatePending = false;
+      if (!render) return;
+
+      this.controllers.forEach(controller => controller.hostUpdate?.());
+      this.update();
+      this.hasUpdated = true;
+      result = true;
+      this.controllers.forEach(controller => controller.hostUpdated?.());
+      this.updated(changed);
+    }
+    finally 
+    {
+      // a hook threw before the update started, do not stay pending forever
+      if (this.changedProperties === changed)
+      {
+        this.changedProperties = new Map();
+        this.isUpdatePending = false;
+      }
+      resolve?.(result);
+    }
+  }
+
+  /**
+   * Registers a controller, it follows this element's lifecycle from now on.
+   * `hostConnected` is called right away when `connectedCallback` already ran.
+   */
+  addController(controller: ReactiveController) {
+    if (this.controllers.has(controller)) return;
+    this.controllers.add(controller);
+    if (this.controllersConnected) controller.hostConnected?.();
+  }
+
+  /**
+   * Unregisters a controller, calling `hostDisconnected` when the element is connected.
+   */
+  removeController(controller: ReactiveController) {
+    if (!this.controllers.delete(controller)) return;
+    if (this.controllersConnected) controller.hostDisconnected?.();
+  }
+
+  /**
+   * Hook deciding whether an update renders, return `false` to skip it.
+   * @param changed The changed properties and their old values
+   */
+  shouldUpdate(changed: ChangedProperties): boolean {
+    return true;
+  }
+
+  /**
+   * Hook called before rendering, e.g. to compute values from the changed properties.
+   * Setting properties here does not request another update.
+   * @param changed The changed properties and their old values
    */
-  requestUpdate() {}
+  willUpdate(changed: ChangedProperties) {}
+
+  /**
+   * Hook called after rendering (and after `firstRender` on the first update).
+   * Setting properties here requests another update.
+   * @param changed The changed properties and their old values
+   */
+  updated(changed: ChangedProperties) {}
 
   /**
    * Queries for the first matching element within this element's render root.
    * @param selectors A valid CSS selector string
    */
   querySelector<T extends Element>(selectors: string) {
-    return this.root.querySelector<T>(selectors);
+    const root = this.root;
+    if (root === this) return super.querySelector<T>(selectors);
+    return root.querySelector<T>(selectors);
   }
   /**
    * Queries for all matching elements within this element's render root.
    * @param selectors A valid CSS selector string
    */
   querySelectorAll<T extends Element>(selectors: string) {
-    return this.root.querySelectorAll<T>(selectors);
+    const root = this.root;
+    if (root === this) return super.querySelectorAll<T>(selectors);
+    return root.querySelectorAll<T>(selectors);
   }
 
   /**
    * Returns the template to render.
    * Can return either:
    * - A string (will be converted to a template)
-   * - An Element (template root)
-   * @returns string|Element
+   * - An `html` result (root element or fragment)
+   * @returns string|TemplateRoot
    */
-  render():string|Element {
+  render():string|TemplateRoot {
     return "Phuong is so kool"
   }
 
   // helper variables & private functions 
   private templateInstance: TemplateInstance|null = null;
+  private serverRendered = false;
+  private lightDOM = false;
+  // light DOM: the children authored inside the element, projected into the template's slots on every update
+  private authoredChildren?: Node[];
+  private renderComputation: Computation|null = null;
+  private scheduler: Scheduler;
+  private requestUpdateTimeout: number;
+  private changedProperties: ChangedProperties = new Map();
+  private isUpdatePending = false;
+  private hasUpdated = false;
+  private updatePromise: Promise<boolean> = Promise.resolve(true);
+  private resolveUpdate?: (result: boolean) => void;
+  private controllers = new Set<ReactiveController>();
+  // an upgraded element is connected while its constructor runs, before connectedCallback
+  private controllersConnected = false;
+
+  /**
+   * Adopts the server-rendered shadow root content as the template instance.
+   * On a mismatch a warning is logged and the server markup is dropped,
+   * so the caller falls back to a regular client render.
+   * @returns The hydrated template instance, or null when there was nothing to hydrate
+   */
+  private hydrate(newRoot: TemplateRoot, values?: any[]) {
+    if (!this.serverRendered || !this.shadowRoot) return null;
+    this.serverRendered = false;
+
+    const style = Array.from(this.shadowRoot.children).find(child => child.localName === "style") as HTMLStyleElement|undefined;
+    const existing = Array.from(this.shadowRoot.childNodes).filter(node => node !== style);
+
+    try 
+    {
+      if (existing.length === 0 || !values) throw new Error("[hydration] no server-rendered content found");
+
+      const instance = new TemplateInstance(newRoot, partFactory, { host: this, hydrateNodes: existing });
+      instance.update(values);
+
+      this.styleElement = style ?? null;
+      return instance;
+    }
+    catch (error) 
+    {
+      console.warn(`[warn] core: hydration of <${this.localName}> failed, falling back to client render`, error);
+      this.shadowRoot.replaceChildren();
+      return null;
+    }
+  }
 
   // decorator query 
   private queryMeta?: QueryMeta[];
+  private queryResults?: Map<PropertyKey, unknown>;
 
   /**
-   * Resolves `@query`-decorated properties by querying the render root.
-   * If a `load` callback exists, it is invoked with the found element.
+   * Resolves `@query` / `@queryAll` decorated properties by querying the render root.
+   * Runs after every render so removed elements are cleared and replaced ones picked up,
+   * `load` is called whenever the result changed.
    */
   private findQueries() {
     if (!this.queryMeta) return;
+    const previous = this.queryResults ??= new Map();
     for (let meta of this.queryMeta)
     {
-      if ((this as any)[meta.propertyKey]) continue;
-      const elm = this.root.querySelector(meta.selector);
-      if (meta.load) meta.load(elm);
-      (this as any)[meta.propertyKey] = elm;
+      const result = meta.all ? Array.from(this.querySelectorAll(meta.selector)) : this.querySelector(meta.selector);
+      const last = previous.get(meta.propertyKey);
+      const same = previous.has(meta.propertyKey) && (
+        Array.isArray(result)
+          ? Array.isArray(last) && last.length === result.length && last.every((elm, index) => elm === result[index])
+          : last === result
+      );
+      if (same) continue;
+
+      previous.set(meta.propertyKey, result);
+      if (meta.load) meta.load(result);
+      if (meta.cache) (this as any)[meta.propertyKey] = result;
+    }
+  }
+
+  // decorator query assigned
+  private assignedMeta?: AssignedMeta[];
+  private watchedSlots = new WeakSet<HTMLSlotElement>();
+
+  /**
+   * Resolves `@queryAssignedElements` / `@queryAssignedNodes` properties from the slots of the render root,
+   * and listens for `slotchange` on those slots to keep them current.
+   */
+  private findAssigned() {
+    if (!this.assignedMeta) return;
+
+    const slots = Array.from(this.querySelectorAll<HTMLSlotElement>("slot"));
+    for (const meta of this.assignedMeta)
+    {
+      const slot = slots.find(slot => (slot.getAttribute("name") ?? "") === meta.slot) ?? null;
+      this.assign(meta, slot);
+
+      if (!slot || this.watchedSlots.has(slot)) continue;
+      this.watchedSlots.add(slot);
+      slot.addEventListener("slotchange", () => {
+        const changed = this.assignedMeta!
+          .filter(meta => meta.slot === (slot.getAttribute("name") ?? ""))
+          .map(meta => this.assign(meta, slot))
+          .some(Boolean);
+        if (changed) this.requestUpdate();
+      });
+    }
+  }
+
+  /**
+   * Sets the property to the slot's current nodes and calls `load` when they changed.
+   * @returns Whether a re-render was asked for
+   */
+  private assign(meta: AssignedMeta, slot: HTMLSlotElement|null) {
+    // light DOM has no slotting, children are moved into the slot element instead
+    let nodes: Node[] = !slot ? [] : this.lightDOM ? Array.from(slot.childNodes) : slot.assignedNodes({ flatten: meta.flatten });
+    if (meta.elements)
+    {
+      nodes = nodes.filter(node => node instanceof Element && (!meta.selector || node.matches(meta.selector)));
     }
-  } 
+
+    const self = this as any;
+    const previous: Node[] | undefined = self[meta.propertyKey];
+    if (previous && previous.length === nodes.length && previous.every((node, index) => node === nodes[index])) return false;
+
+    self[meta.propertyKey] = nodes;
+    meta.load?.call(this, nodes);
+    return meta.rerender && previous !== undefined;
+  }
 
   /**
-   * Calls getStyle and populates to the styleElement 
-   * it will create the element if null
+   * Applies the class styles to the shadow root.
+   * Adopts the shared stylesheets where supported (replacing a server-rendered `<style>`),
+   * else calls getStyle and populates the styleElement, creating it if null.
+   * In light DOM mode the styles are scoped to the tag name and added once to the surrounding document or shadow root.
    */
   renderStyle() {
+    if (this.lightDOM) return void renderLightStyles(this);
+
+    const root = this.shadowRoot;
+    if (root && supportsAdoptingStyleSheets())
+    {
+      const sheets = getStyles(this.constructor).map(style => style.styleSheet!);
+      root.adoptedStyleSheets = [
+        ...root.adoptedStyleSheets.filter(sheet => !this.adoptedSheets.includes(sheet)),
+        ...sheets,
+      ];
+      this.adoptedSheets = sheets;
+
+      this.styleElement?.remove();
+      this.styleElement = null;
+      return;
+    }
+
     const styles = this.getStyle();
     if (this.styleElement == null)
     {
-      this.styleElement = document.createElement("style");
-      this.root.appendChild(this.styleElement);
+      this.styleElement = createStyleElement(styles);
+      (root ?? this.root).appendChild(this.styleElement);
+      return;
     }
 
-    this.styleElement.innerHTML = styles;
+    this.styleElement.textContent = styles;
   }
 
   /**
-   * combines both the static style together with the styles to form one big style 
+   * combines the styles of the class and its base classes together to form one big style 
    * @returns string
    */
   getStyle () {
-    // Get the constructor of the child class
-    const childConstructor = (this.constructor as any) as typeof CustomElement & { style?: string; styles?: string[]; };
+    return getStyles(this.constructor).map(style => style.cssText).join(' ');
+  }
+
+  // decorator property 
+  private propertyMeta?: PropertyMeta;
+
+  // decorator property context
+  private contextMeta?: ContextMeta[];
+  private contextCleanup: Array<() => void> = [];
 
-    // Access the static property on the child class
-    const styles = [
-      ...(childConstructor.styles ?? []),
-      ...(typeof childConstructor.style === "string" ? [childConstructor.style] : []),
+  /**
+   * Starts providing context properties and requests the consumed ones.
+   * Providers go first, so an element can consume from an ancestor what it passes on itself.
+   */
+  private connectContext() {
+    if (!this.contextMeta || this.contextCleanup.length > 0) return;
+
+    const self = this as any;
+    for (const meta of this.contextMeta)
+    {
+      if (meta.role !== "provider") continue;
+      this.contextCleanup.push(provide(this, meta.key, () => self[meta.propertyKey]));
+    }
+    for (const meta of this.contextMeta)
+    {
+      if (meta.role !== "consumer") continue;
+      this.contextCleanup.push(consume(this, meta.key, value => self[meta.propertyKey] = value, meta.subscribe));
+    }
+  }
+
+  // decorator listen
+  private listenMeta?: ListenMeta[];
+  private listenCleanup: Array<() => void> = [];
+
+  /**
+   * Adds the `@listen` listeners to their targets.
+   * Selector targets are delegated: one listener on the render root matches the event path.
+   */
+  private connectListeners() {
+    if (!this.listenMeta || this.listenCleanup.length > 0) return;
+
+    const self = this as any;
+    for (const meta of this.listenMeta)
+    {
+      const { type, target, options } = meta;
+      const delegated = target !== "host" && target !== "window" && target !== "document";
+      const eventTarget: EventTarget = target === "host" ? this : target === "window" ? window : target === "document" ? document : this.shadowRoot ?? this;
+      // delegated `once` only counts matching events, so it is handled here
+      const init: AddEventListenerOptions = { passive: options.passive, capture: options.capture, once: options.once && !delegated };
+
+      const listener = (event: Event) => {
+        if (!delegated) return void self[meta.propertyKey](event);
+
+        const match = findDelegate(event, target, eventTarget as Node);
+        if (!match) return;
+        if (options.once) remove();
+        self[meta.propertyKey](event, match);
+      };
+      const remove = () => eventTarget.removeEventListener(type, listener, init);
+
+      eventTarget.addEventListener(type, listener, init);
+      this.listenCleanup.push(remove);
+    }
+  }
+  // decorator watch
+  private watchMeta?: WatchMeta[];
+
+  /**
+   * Called by `@property` setters on every change.
+   * Runs the synchronous `@watch` methods and requests an update for the batched ones.
+   */
+  private notifyWatchers(name: PropertyKey, oldValue: unknown, value: unknown) {
+    if (!this.watchMeta) return;
+
+    let batched = false;
+    for (const meta of this.watchMeta)
+    {
+      if (!meta.properties.includes(name)) continue;
+      if (!meta.sync) batched = true;
+      else if (this.hasUpdated || !meta.waitUntilFirstUpdate) (this as any)[meta.propertyKey](oldValue, value, name);
+    }
+
+    if (batched) this.requestUpdate(name, oldValue);
+  }
+
+  /**
+   * Calls the batched `@watch` methods once for each of their properties changed in this update.
+   */
+  private runWatchers(changed: ChangedProperties) {
+    if (!this.watchMeta) return;
+
+    const self = this as any;
+    for (const meta of this.watchMeta)
+    {
+      if (meta.sync || (meta.waitUntilFirstUpdate && !this.hasUpdated)) continue;
+      for (const name of meta.properties)
+      {
+        if (changed.has(name)) self[meta.propertyKey](changed.get(name), self[name], name);
+      }
+    }
+  }
+}
+
+/**
+ * Finds the first element in the event path (inside `root`) that matches the selector.
+ */
+function findDelegate(event: Event, selector: string, root: Node): Element | null {
+  for (const target of event.composedPath())
+  {
+    if (target === root) return null;
+    if (target instanceof Element && target.matches(selector)) return target;
+  }
+  return null;
+}
+
+/**
+ * Collects the styles of a component class and its base classes, base classes first.
+ * Each class contributes its own `styles` then `style`, duplicates are kept once.
+ */
+function getStyles(constructor: Function): CSSResult[] {
+  const chain: Function[] = [];
+  for (let current = constructor; current && current !== CustomElement; current = Object.getPrototypeOf(current))
+  {
+    chain.unshift(current);
+  }
+
+  const styles = new Set<CSSResult>();
+  for (const current of chain as Array<Function & { style?: CSSInput; styles?: CSSInput | CSSInput[] }>)
+  {
+    const own = [
+      ...(Object.hasOwn(current, "styles") && current.styles ? [current.styles].flat() : []),
+      ...(Object.hasOwn(current, "style") && current.style ? [current.style] : []),
     ];
+    own.forEach(style => styles.add(toCSSResult(style)));
+  }
+  return Array.from(styles);
+}
 
-    return styles.join(' ');
+/**
+ * Moves the children authored inside a light DOM element into the matching `<slot>` of its template,
+ * by their `slot` attribute (the unnamed slot otherwise). Slotted content replaces the slot's fallback content,
+ * which comes back while nothing is assigned to the slot.
+ * Children without a matching slot are not rendered, like in shadow DOM, and are projected once a matching slot renders.
+ */
+function projectChildren(host: CustomElement, children: Node[]) {
+  const authored = new Set(children);
+  const slots = Array.from(host.querySelectorAll<HTMLSlotElement>("slot")).filter(slot => ownsSlot(host, slot, authored));
+
+  const assigned = new Map<HTMLSlotElement, Node[]>(slots.map(slot => [slot, []]));
+  for (const child of children)
+  {
+    const name = child instanceof Element ? child.getAttribute("slot") ?? "" : "";
+    const slot = slots.find(slot => (slot.getAttribute("name") ?? "") === name);
+    if (slot) assigned.get(slot)!.push(child);
+    else child.parentNode?.removeChild(child);
   }
 
-  // decorator property 
-  private propertyMeta?: PropertyMeta;
-}
\ No newline at end of file
+  assigned.forEach((nodes, slot) => {
+    const fallback = fallbackContent.get(slot);
+    if (nodes.length === 0)
+    {
+      if (!fallback) return;
+      fallbackContent.delete(slot);
+      slot.replaceChildren(fallback);
+      return;
+    }
+
+    // moving nodes that are in place already would disconnect and reconnect them
+    const current = Array.from(slot.childNodes);
+    if (fallback && current.length === nodes.length && current.every((node, index) => node === nodes[index])) return;
+
+    if (!fallback)
+    {
+      // the fallback keeps its parts, they update it while it is put aside
+      const content = document.createDocumentFragment();
+      content.append(...current);
+      fallbackContent.set(slot, content);
+    }
+    slot.replaceChildren(...nodes);
+  });
+}
+
+/**
+ * Whether a slot belongs to the host's template, not to authored content or to a nested light DOM element.
+ */
+function ownsSlot(host: CustomElement, slot: HTMLSlotElement, authored: Set<Node>) {
+  for (let node = slot.parentNode; node && node !== host; node = node.parentNode)
+  {
+    if (authored.has(node) || node instanceof CustomElement) return false;
+  }
+  return true;
+}
+
+// fallback content of light DOM slots with assigned children
+const fallbackContent = new WeakMap<HTMLSlotElement, DocumentFragment>();
+
+// scoped light DOM styles already added, per document or shadow root
+const lightStyles = new WeakMap<Node, Set<CSSResult>>();
+
+/**
+ * Adds the scoped styles of a light DOM element to the document or shadow root containing it, once per root.
+ */
+function renderLightStyles(element: CustomElement) {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  let added = lightStyles.get(root);
+  if (!added) lightStyles.set(root, added = new Set());
+
+  const styles = getStyles(element.constructor)
+    .map(style => toCSSResult(scopeCSS(style.cssText, element.localName)))
+    .filter(style => !added.has(style));
+  if (styles.length === 0) return;
+  styles.forEach(style => added.add(style));
+
+  if (supportsAdoptingStyleSheets())
+  {
+    root.adoptedStyleSheets = [...root.adoptedStyleSheets, ...styles.map(style => style.styleSheet!)];
+    return;
+  }
+
+  const target = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).head : root;
+  styles.forEach(style => target.appendChild(createStyleElement(style.cssText)));
+}
@@ -1,5 +1,11 @@
 // export 
 export * from "./custom-element.js";
-export {
-  Setting as ElementSetting
+export * from "./internals-element.js";
+export type {
+  Setting as ElementSetting,
+  ChangedProperties,
+  ReactiveController,
+  ReactiveControllerHost,
+  FormValue,
+  Validator,
 } from "./types";
\ No newline at end of file
@@ -7,8 +7,11 @@
  *
  * Provides:
  * - `ElementInternals` handling via `this.attachInternals()`
- * - Full support for `formAssociated`, `formDisabledCallback`, `formStateRestoreCallback`
+ * - Full support for `formAssociated`, `formDisabledCallback`, `formResetCallback`, `formStateRestoreCallback`
  * - Property-decorator integration for reactive `disabled` attribute with ARIA mapping
+ * - A `value` property submitted with the form through `setFormValue`
+ * - Declarative constraints (`required`, `pattern`, `min`/`max`, `minLength`/`maxLength`, custom validators)
+ *   turned into validity flags and messages
  * - Wrapper methods for `checkValidity`, `reportValidity`, and `setValidity`
  *
  * @module CustomElementInternals
@@ -18,7 +21,20 @@
 
 import { CustomElement } from "./custom-element";
 import { property } from "@decorators/property";
-import { Setting } from "./types";
+import { watch } from "@decorators/watch";
+import { FormValue, Setting, Validator } from "./types";
+
+const validityMessages: Record<Exclude<keyof ValidityStateFlags, "customError">, (element: CustomElementInternals) => string> = {
+  valueMissing: () => "Please fill out this field.",
+  typeMismatch: () => "Please enter a valid value.",
+  patternMismatch: () => "Please match the requested format.",
+  tooShort: element => `Please use at least ${element.minLength} characters.`,
+  tooLong: element => `Please use no more than ${element.maxLength} characters.`,
+  rangeUnderflow: element => `Value must be greater than or equal to ${element.min}.`,
+  rangeOverflow: element => `Value must be less than or equal to ${element.max}.`,
+  stepMismatch: () => "Please enter a valid value.",
+  badInput: () => "Please enter a valid value.",
+};
 
 /**
  * **CustomElementInternals**
@@ -29,14 +45,15 @@ import { Setting } from "./types";
  *
  * - Direct form association (`static formAssociated = true`)
  * - Native form validation methods (`checkValidity`, `reportValidity`, `setValidity`)
- * - Integration with lifecycle form callbacks (`formAssociatedCallback`, `formDisabledCallback`, `formStateRestoreCallback`)
+ * - Integration with lifecycle form callbacks (`formAssociatedCallback`, `formDisabledCallback`, `formResetCallback`, `formStateRestoreCallback`)
  * - Auto-synced `disabled` state with `aria-disabled`
+ * - `value` synced to the form, validated against the constraint properties on every change
  *
  * **Usage Example:**
  * ```ts
  * class MyInput extends CustomElementInternals {
  *   render() {
- *     return html`<input ?disabled=${this.disabled}>`;
+ *     return html`<input ?disabled=${this.disabled} .value=${this.value ?? ""} @input=${(e: Event) => this.value = (e.target as HTMLInputElement).value}>`;
  *   }
  * }
  * customElements.define('my-input', MyInput);
@@ -61,24 +78,144 @@ export class CustomElementInternals extends CustomElement {
   @property({ rerender: false, type: Boolean, aria: 'aria-disabled', removeAttribute: true })
   disabled?: boolean;
 
+  /**
+   * The value submitted with the form, passed to `setFormValue` (also as the restore state) on every change.
+   * The `value` attribute sets it declaratively, only string values are reflected.
+   */
+  @property({ rerender: true, attribute: true, converter: { toAttribute: (value: unknown) => typeof value === "string" ? value : null } })
+  value?: FormValue;
+
+  /**
+   * The value brought back by a form reset, the `value` at the first connect when not set.
+   */
+  defaultValue?: FormValue;
+
+  /** Constraint: an empty value is invalid (`valueMissing`), set by the presence of the attribute like on native inputs. */
+  @property({ type: Boolean, attribute: true, converter: { fromAttribute: () => true, toAttribute: (value: boolean) => value ? "" : null } })
+  required?: boolean;
+
+  /** Constraint: the whole value must match this regular expression (`patternMismatch`). */
+  @property({ attribute: true })
+  pattern?: string;
+
+  /** Constraint: numeric values below are invalid (`rangeUnderflow`). */
+  @property({ type: Number, attribute: true })
+  min?: number;
+
+  /** Constraint: numeric values above are invalid (`rangeOverflow`). */
+  @property({ type: Number, attribute: true })
+  max?: number;
+
+  /** Constraint: shorter values are invalid (`tooShort`). */
+  @property({ type: Number, attribute: "minlength" })
+  minLength?: number;
+
+  /** Constraint: longer values are invalid (`tooLong`). */
+  @property({ type: Number, attribute: "maxlength" })
+  maxLength?: number;
+
+  /**
+   * Custom constraints, run after the built-in ones; the first returned message marks the element invalid (`customError`).
+   */
+  protected validators: Validator[] = [];
+
+  /**
+   * The element the browser points at when reporting a validation message, e.g. the inner `<input>`.
+   */
+  protected validationAnchor?: HTMLElement;
+
   constructor(setting?: Partial<Setting>) {
     super(setting);
     this._internals = this.attachInternals();
   }
 
+  connectedCallback() {
+    if (this.defaultValue === undefined) this.defaultValue = this.value ?? null;
+    // the watcher only runs on changes, an untouched value still has to reach the form and be validated
+    this.updateFormValue();
+    super.connectedCallback();
+  }
+
+  /** Passes the changed value to the form and validates it. */
+  @watch("value", { sync: true })
+  protected updateFormValue() {
+    if (this._internals === undefined) return;
+    const value = this.value ?? null;
+    this._internals.setFormValue(value, value);
+    this.validate();
+  }
+
+  /**
+   * Computes the validity flags and message from the constraints and applies them with `setValidity`.
+   * Runs on every change of `value` or a constraint, call it when a custom validator depends on other state.
+   */
+  @watch("required", "pattern", "min", "max", "minLength", "maxLength", { sync: true })
+  protected validate() {
+    if (this._internals === undefined) return;
+
+    const value = this.value;
+    const text = typeof value === "string" || typeof value === "number" ? String(value) : null;
+    const flags: ValidityStateFlags = {};
+
+    if (value === null || value === undefined || text === "")
+    {
+      if (this.required) flags.valueMissing = true;
+    }
+    else if (text !== null)
+    {
+      if (this.pattern && !matchesPattern(text, this.pattern)) flags.patternMismatch = true;
+      if (this.minLength !== undefined && text.length < this.minLength) flags.tooShort = true;
+      if (this.maxLength !== undefined && text.length > this.maxLength) flags.tooLong = true;
+
+      const number = Number(text);
+      if (!Number.isNaN(number))
+      {
+        if (this.min !== undefined && number < this.min) flags.rangeUnderflow = true;
+        if (this.max !== undefined && number > this.max) flags.rangeOverflow = true;
+      }
+    }
+
+    let message = "";
+    for (const validator of this.validators)
+    {
+      const result = validator.call(this, value, this);
+      if (!result) continue;
+      flags.customError = true;
+      message = result;
+      break;
+    }
+
+    const flag = (Object.keys(flags) as Array<keyof ValidityStateFlags>).find(key => key !== "customError");
+    if (flag) message = this.validityMessage(flag);
+    this.setValidity(flags, message, this.validationAnchor);
+  }
+
+  /**
+   * The message shown for a failed built-in constraint, override to translate or rephrase.
+   */
+  protected validityMessage(flag: Exclude<keyof ValidityStateFlags, "customError">): string {
+    return validityMessages[flag](this);
+  }
+
   /** Called when the element’s `disabled` state changes via a form. */
   protected formDisabledCallback(disabled: boolean) {
     this.disabled = disabled;
   }
 
-  /** Called when the element is associated with a form. */
-  protected formAssociatedCallback(form: HTMLFormElement) {
-    console.log('[field]: formAssociatedCallback', form);
+  /** Called when the element is associated with a form (`null` when it leaves one). */
+  protected formAssociatedCallback(form: HTMLFormElement | null) {}
+
+  /** Called when the form is reset, brings back `defaultValue`. */
+  protected formResetCallback() {
+    this.value = this.defaultValue ?? null;
   }
 
-  /** Called when the browser restores the form's state (e.g., after page reload). */
-  protected formStateRestoreCallback(state: any, mode: any) {
-    console.log('[field]: formStateRestoreCallback', { state, mode });
+  /**
+   * Called when the browser restores the form's state (e.g., after page reload or back navigation),
+   * or autofills it; brings back the saved value.
+   */
+  protected formStateRestoreCallback(state: FormValue, mode: "restore" | "autocomplete") {
+    this.value = state;
   }
 
   /** Returns `true` if the element's value satisfies validity constraints. */
@@ -104,7 +241,21 @@ export class CustomElementInternals extends CustomElement {
     message?: string | undefined,
     anchor?: HTMLElement | undefined
   ) {
-    if (!this._internals === undefined) return;
+    if (this._internals === undefined) return;
     this._internals.setValidity(flags, message, anchor || undefined);
   }
 }
+
+/**
+ * Checks that the whole text matches the pattern, an invalid pattern is ignored like on native inputs.
+ */
+function matchesPattern(text: string, pattern: string) {
+  try 
+  {
+    return new RegExp(`^(?:${pattern})$`, "u").test(text);
+  }
+  catch 
+  {
+    return true;
+  }
+}
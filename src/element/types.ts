@@ -1,11 +1,101 @@
 export type Setting = {
+  /**
+   * Render into a shadow root (default), or with `false` into the element itself (light DOM).
+   */
+  shadow: boolean;
+
+  /**
+   * When updates run: batched in the next microtask (default) or the next animation frame.
+   */
+  scheduler: "microtask" | "frame";
+
+  /**
+   * Delays updates by this many milliseconds after the first request, before they are batched.
+   * @deprecated Updates are batched by the scheduler, await `updateComplete` instead of waiting.
+   */
   requestUpdateTimeout: number;
 }
 
+export type ChangedProperties = Map<PropertyKey, unknown>;
+
 export type QueryMeta = {
   propertyKey: PropertyKey;
   selector: string;
+  /** `true` for `@queryAll` */
+  all: boolean;
+  /** `false` resolves the query on every access instead of after each render */
+  cache: boolean;
   load?(element:unknown): void;
 }
 
-export type PropertyMeta = Map<string, (newValue:string|null|undefined, oldValue:string|null|undefined) => void>;
\ No newline at end of file
+export type AssignedMeta = {
+  propertyKey: PropertyKey;
+  /** `true` for `@queryAssignedElements`, `false` for `@queryAssignedNodes` */
+  elements: boolean;
+  slot: string;
+  selector?: string;
+  flatten: boolean;
+  rerender: boolean;
+  load?(nodes: Node[]): void;
+}
+
+export type ContextMeta = {
+  propertyKey: PropertyKey;
+  key: unknown;
+  role: "provider" | "consumer";
+  subscribe: boolean;
+}
+
+export type ListenMeta = {
+  propertyKey: PropertyKey;
+  type: string;
+  /** `"host"`, `"window"`, `"document"` or a selector for delegation */
+  target: string;
+  options: {
+    passive?: boolean;
+    capture: boolean;
+    once: boolean;
+  };
+}
+
+export type WatchMeta = {
+  /** the watching method */
+  propertyKey: PropertyKey;
+  properties: PropertyKey[];
+  sync: boolean;
+  waitUntilFirstUpdate: boolean;
+}
+
+/** What `setFormValue` accepts, `null` submits nothing. */
+export type FormValue = string | File | FormData | null;
+
+/**
+ * A custom constraint of a `CustomElementInternals`, returns the validation message when the value is invalid.
+ */
+export type Validator<T = any> = (value: T, element: HTMLElement) => string | null | undefined;
+
+export type PropertyMeta = Map<string, (newValue:string|null|undefined, oldValue:string|null|undefined) => void>;
+
+/**
+ * A reusable piece of behaviour hooked into a host element's lifecycle, see `CustomElement.addController`.
+ */
+export interface ReactiveController {
+  /** Called when the host connects, or right away when added to a connected host. */
+  hostConnected?(): void;
+  /** Called when the host disconnects, or when removed from a connected host. */
+  hostDisconnected?(): void;
+  /** Called on each update before the host renders. */
+  hostUpdate?(): void;
+  /** Called on each update after the host rendered. */
+  hostUpdated?(): void;
+}
+
+/**
+ * What a controller can use of its host.
+ */
+export interface ReactiveControllerHost {
+  addController(controller: ReactiveController): void;
+  removeController(controller: ReactiveController): void;
+  requestUpdate(): Promise<boolean>;
+  readonly updateComplete: Promise<boolean>;
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Context passing across shadow boundaries, following the community context protocol.
+ *
+ * @details
+ * - A consumer dispatches a `context-request` event (bubbling, composed) from itself.
+ * - The closest provider for that key answers by calling `event.callback(value)` and stops the event.
+ * - With `subscribe: true` the provider keeps the callback and calls it again on every change,
+ *   passing an `unsubscribe` function the consumer calls when it disconnects.
+ * - A provider dispatches a `context-provider` event (bubbling, composed) when it starts.
+ *   A consumer without an answer yet listens for it on the document and requests again,
+ *   so a consumer connecting before its provider (e.g. defined first) still resolves.
+ * - Events are read by shape, not by class, so providers and consumers from different bundles
+ *   (or other libraries implementing the protocol) work together. Use keys both sides can reach,
+ *   such as strings or `Symbol.for(...)`.
+ *
+ * @example
+ * ```ts
+ * const stop = provide(app, "theme", () => app.theme);
+ * consume(button, "theme", theme => button.theme = theme, true);
+ * updateContext(app, "theme", "dark"); // button.theme === "dark"
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+export type ContextCallback<T = unknown> = (value: T, unsubscribe?: () => void) => void;
+
+/**
+ * The event a consumer dispatches to find the provider of a context key.
+ */
+export class ContextRequestEvent<T = unknown> extends Event {
+  constructor(
+    readonly context: unknown,
+    readonly callback: ContextCallback<T>,
+    readonly subscribe = false,
+  ) {
+    super("context-request", { bubbles: true, composed: true });
+  }
+}
+
+/**
+ * The event a provider dispatches when it starts answering requests for a context key.
+ */
+export class ContextProviderEvent extends Event {
+  constructor(
+    readonly context: unknown,
+    readonly contextTarget: Element,
+  ) {
+    super("context-provider", { bubbles: true, composed: true });
+  }
+}
+
+// subscribed consumer callbacks, per provider element and key
+const subscriptions = new WeakMap<EventTarget, Map<unknown, Map<ContextCallback, () => void>>>();
+
+/**
+ * Answers `context-request` events for a key from below the host.
+ * @param host The providing element
+ * @param key The context key
+ * @param getValue Reads the current value
+ * @returns A function that stops providing and drops all subscribed consumers
+ */
+export function provide(host: HTMLElement, key: unknown, getValue: () => unknown) {
+  const listener = (event: Event) => {
+    const request = event as Partial<ContextRequestEvent>;
+    if (request.context !== key || typeof request.callback !== "function") return;
+    // a host consuming the key it provides asks its own ancestors
+    if (event.composedPath()[0] === host) return;
+
+    event.stopPropagation();
+    const callback = request.callback;
+
+    if (!request.subscribe) return void callback(getValue());
+
+    const callbacks = getSubscriptions(host, key);
+    let unsubscribe = callbacks.get(callback);
+    if (!unsubscribe) {
+      unsubscribe = () => void callbacks.delete(callback);
+      callbacks.set(callback, unsubscribe);
+    }
+    callback(getValue(), unsubscribe);
+  };
+
+  host.addEventListener("context-request", listener);
+  host.dispatchEvent(new ContextProviderEvent(key, host));
+  return () => {
+    host.removeEventListener("context-request", listener);
+    subscriptions.get(host)?.delete(key);
+  };
+}
+
+/**
+ * Sends a new value to every consumer subscribed to the host's key.
+ */
+export function updateContext(host: HTMLElement, key: unknown, value: unknown) {
+  const callbacks = subscriptions.get(host)?.get(key);
+  if (!callbacks) return;
+  callbacks.forEach((unsubscribe, callback) => callback(value, unsubscribe));
+}
+
+/**
+ * Requests a context value from the closest provider above the host.
+ * Providers answer synchronously, so a provider already connected above resolves `onValue` right away.
+ * Without an answer the request is repeated whenever a provider for the key starts, until one answers.
+ * @param host The consuming element, the request is dispatched from it
+ * @param key The context key
+ * @param onValue Receives the value, and every later change when subscribed
+ * @param subscribe Keep receiving updates until the returned function is called
+ * @returns A function that unsubscribes from the provider
+ */
+export function consume<T = unknown>(host: HTMLElement, key: unknown, onValue: (value: T) => void, subscribe = false) {
+  let active = true;
+  let answered = false;
+  let unsubscribe: (() => void) | undefined;
+
+  const request = () => host.dispatchEvent(new ContextRequestEvent<T>(key, (value, dispose) => {
+    if (!active) return void dispose?.();
+    answered = true;
+    // a different provider answering means the old one is out of the picture
+    if (dispose !== unsubscribe) unsubscribe?.();
+    unsubscribe = dispose;
+    onValue(value);
+  }, subscribe));
+
+  request();
+
+  // pending: ask again when a provider for the key starts, it may be above the host
+  let stopWaiting = () => {};
+  if (!answered)
+  {
+    const document = host.ownerDocument;
+    const listener = (event: Event) => {
+      if ((event as Partial<ContextProviderEvent>).context !== key) return;
+      request();
+      if (answered) stopWaiting();
+    };
+    document.addEventListener("context-provider", listener);
+    stopWaiting = () => document.removeEventListener("context-provider", listener);
+  }
+
+  return () => {
+    active = false;
+    stopWaiting();
+    unsubscribe?.();
+    unsubscribe = undefined;
+  };
+}
+
+function getSubscriptions(host: EventTarget, key: unknown) {
+  let keys = subscriptions.get(host);
+  if (!keys) subscriptions.set(host, keys = new Map());
+  let callbacks = keys.get(key);
+  if (!callbacks) keys.set(key, callbacks = new Map());
+  return callbacks;
+}
@@ -0,0 +1,8 @@
+export {
+  ContextRequestEvent,
+  ContextProviderEvent,
+  type ContextCallback,
+  provide,
+  consume,
+  updateContext,
+} from "./context";
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Provides the `css` tagged template for component styles shared through constructable stylesheets.
+ *
+ * @details
+ * - `css` returns a `CSSResult`, its `CSSStyleSheet` is created once on first use and shared
+ *   by every shadow root adopting it.
+ * - Interpolated `CSSResult`s are inlined, other values are converted with `String()`.
+ * - Plain strings (e.g. `static style = "..."`) go through `toCSSResult`, equal strings share one result.
+ * - Without constructable stylesheets (older browsers, server rendering) `styleSheet` is `undefined`
+ *   and `cssText` is used in a `<style>` element instead.
+ * - `scopeCSS` rewrites styles for components rendering into light DOM (`:host` → tag name).
+ *
+ * @example
+ * ```ts
+ * const theme = css`:host { color: var(--text); }`;
+ *
+ * class MyButton extends CustomElement {
+ *   static styles = [theme, css`button { padding: 0.5rem; }`];
+ * }
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+export class CSSResult {
+  private sheet?: CSSStyleSheet;
+
+  constructor(readonly cssText: string) {}
+
+  /**
+   * The shared stylesheet, `undefined` where constructable stylesheets are not supported.
+   */
+  get styleSheet(): CSSStyleSheet | undefined {
+    if (!this.sheet && supportsAdoptingStyleSheets()) {
+      this.sheet = new CSSStyleSheet();
+      this.sheet.replaceSync(this.cssText);
+    }
+    return this.sheet;
+  }
+
+  toString() {
+    return this.cssText;
+  }
+}
+
+export type CSSInput = string | CSSResult;
+
+// results of plain strings, so equal CSS is parsed once
+const stringResults = new Map<string, CSSResult>();
+
+// CSP nonce for the <style> elements components create
+let styleNonce: string | null = null;
+
+/**
+ * The `css` tagged template function.
+ * @returns A `CSSResult`, shared by all styles with the same text.
+ */
+export function css(strings: TemplateStringsArray, ...values: unknown[]): CSSResult {
+  const cssText = strings.reduce((text, string, i) => {
+    const value = values[i - 1];
+    return text + (value instanceof CSSResult ? value.cssText : String(value)) + string;
+  });
+  return toCSSResult(cssText);
+}
+
+/**
+ * Wraps a style string into a (shared) `CSSResult`, results are returned as-is.
+ */
+export function toCSSResult(style: CSSInput): CSSResult {
+  if (style instanceof CSSResult) return style;
+
+  let result = stringResults.get(style);
+  if (!result) stringResults.set(style, result = new CSSResult(style));
+  return result;
+}
+
+/**
+ * Sets the CSP nonce added to the `<style>` elements components create,
+ * used where constructed stylesheets are not supported and for light DOM styles.
+ * Adopted stylesheets need no nonce.
+ *
+ * @param nonce The nonce of the page's `style-src` directive, `null` to stop adding one
+ */
+export function setStyleNonce(nonce: string | null) {
+  styleNonce = nonce;
+}
+
+/**
+ * The CSP nonce set with `setStyleNonce`, if any.
+ */
+export function getStyleNonce() {
+  return styleNonce;
+}
+
+/**
+ * Creates a `<style>` element with the style nonce.
+ */
+export function createStyleElement(cssText: string) {
+  const styleElement = document.createElement("style");
+  if (styleNonce) styleElement.nonce = styleNonce;
+  styleElement.textContent = cssText;
+  return styleElement;
+}
+
+/**
+ * Whether shadow roots can adopt constructed `CSSStyleSheet`s.
+ */
+export function supportsAdoptingStyleSheets() {
+  return typeof ShadowRoot !== "undefined"
+    && "adoptedStyleSheets" in ShadowRoot.prototype
+    && typeof CSSStyleSheet !== "undefined"
+    && "replaceSync" in CSSStyleSheet.prototype;
+}
+
+/**
+ * Scopes a stylesheet to a tag name, for components rendering into light DOM.
+ * - `:host` → `tag`, `:host(.open)` → `tag.open`, `:host-context(.dark)` → `.dark tag`
+ * - `::slotted(p)` → `slot > p` (light DOM children are moved into the slot element)
+ * - Any other selector is prefixed with the tag, e.g. `button` → `tag button`
+ * - Rules inside `@media`, `@supports`, `@container` and `@layer` are scoped too, other at-rules are kept as-is.
+ */
+export function scopeCSS(cssText: string, tagName: string): string {
+  return scopeRules(cssText.replace(/\/\*[\s\S]*?\*\//g, ""), tagName);
+}
+
+function scopeRules(css: string, tagName: string): string {
+  let result = "";
+  let start = 0;
+
+  for (let i = 0; i < css.length; i++)
+  {
+    const char = css[i];
+    if (char === ";") {
+      // at-statement such as @import
+      result += css.slice(start, i + 1);
+      start = i + 1;
+      continue;
+    }
+    if (char !== "{") continue;
+
+    // find the matching closing brace
+    let depth = 1;
+    let end = i + 1;
+    for (; end < css.length && depth > 0; end++) {
+      if (css[end] === "{") depth++;
+      else if (css[end] === "}") depth--;
+    }
+
+    const prelude = css.slice(start, i);
+    const body = css.slice(i + 1, end - 1);
+    const trimmed = prelude.trim();
+
+    if (/^@(media|supports|container|layer|document)\b/i.test(trimmed)) result += `${prelude}{${scopeRules(body, tagName)}}`;
+    else if (trimmed.startsWith("@")) result += `${prelude}{${body}}`;
+    else result += `${scopeSelectors(prelude, tagName)}{${body}}`;
+
+    start = end;
+    i = end - 1;
+  }
+
+  return result + css.slice(start);
+}
+
+function scopeSelectors(prelude: string, tagName: string) {
+  const leading = prelude.match(/^\s*/)![0];
+  return leading + splitSelectors(prelude).map(selector => scopeSelector(selector.trim(), tagName)).join(", ") + " ";
+}
+
+function scopeSelector(selector: string, tagName: string) {
+  selector = selector.replace(/([^\s>+~,]*)::slotted\(([^)]*)\)/g, (_match, before: string, inner: string) => `${before || "slot"} > ${inner}`);
+
+  if (!selector.includes(":host")) return `${tagName} ${selector}`;
+  return selector
+    .replace(/:host-context\(([^)]*)\)/g, (_match, context: string) => `${context} ${tagName}`)
+    .replace(/:host\(([^)]*)\)/g, (_match, inner: string) => `${tagName}${inner}`)
+    .replace(/:host\b/g, tagName);
+}
+
+/** Splits a selector list on the commas outside of parentheses. */
+function splitSelectors(prelude: string) {
+  const selectors: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < prelude.length; i++) {
+    if (prelude[i] === "(") depth++;
+    else if (prelude[i] === ")") depth--;
+    else if (prelude[i] === "," && depth === 0) {
+      selectors.push(prelude.slice(start, i));
+      start = i + 1;
+    }
+  }
+  selectors.push(prelude.slice(start));
+  return selectors.filter(selector => selector.trim());
+}
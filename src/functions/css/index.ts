@@ -0,0 +1,10 @@
+export {
+  css,
+  toCSSResult,
+  supportsAdoptingStyleSheets,
+  scopeCSS,
+  setStyleNonce,
+  getStyleNonce,
+  CSSResult,
+  type CSSInput,
+} from "./css";
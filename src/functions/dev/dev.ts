@@ -0,0 +1,30 @@
+/**
+ * @fileoverview The development flag shared by the warnings and checks that production bundles drop.
+ *
+ * @details
+ * The builds define `__PAPIT_DEV__` (`true` for development, `false` for production), so the minifier removes
+ * the code behind `if (DEV)`. Sources bundled without it fall back on `process.env.NODE_ENV`, read safely:
+ * a browser without `process` counts as development.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+declare const __PAPIT_DEV__: boolean | undefined;
+
+/**
+ * Whether development warnings and checks run, `__PAPIT_DEV__` when the build defines it.
+ */
+export const DEV = typeof __PAPIT_DEV__ === "boolean" ? __PAPIT_DEV__ : readNodeEnv() !== "production";
+
+function readNodeEnv(): string | undefined {
+  // without a bundler replacing it, `process` is not defined in browsers
+  try
+  {
+    return process.env.NODE_ENV;
+  }
+  catch
+  {
+    return undefined;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Public API for writing directives — values that take control
+ * over the part they are bound to.
+ *
+ * @details
+ * - A directive is a class extending `Directive`, wrapped with `directive()` into a function.
+ * - Calling that function inside a template returns a `DirectiveResult`, usable in any binding position.
+ * - One directive instance lives per part (per binding position) for as long as the same directive
+ *   is bound there, so it can keep state between renders.
+ * - `update()` returns the value to commit, or `noChange` to leave the DOM as it is
+ *   (for example because the directive wrote to the part itself).
+ * - `connected()` / `disconnected()` follow the host element and the binding itself.
+ * - `setValue()` commits a value later on, outside of a template update (async results).
+ *
+ * @example
+ * ```ts
+ * class ClassMap extends Directive {
+ *   render(classes: Record<string, boolean>) {
+ *     return Object.keys(classes).filter(name => classes[name]).join(" ");
+ *   }
+ * }
+ * const classMap = directive(ClassMap);
+ *
+ * html`<div class=${classMap({ active: this.active })}></div>`;
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import type { Part } from "@functions/part/types";
+import type { DirectiveConstructor, DirectiveResult } from "./types";
+
+/**
+ * Returned from `update()` to signal that the part should not be touched.
+ */
+export const noChange = Symbol("noChange");
+
+/**
+ * Base class for directives.
+ */
+export abstract class Directive<Args extends unknown[] = any[]> {
+  /**
+   * The value this directive committed on its last update (`undefined` before the first).
+   */
+  value: unknown = undefined;
+
+  /**
+   * @internal Set by the directive slot while the directive is bound, see `setValue`.
+   */
+  commit?: (value: unknown) => void;
+
+  /**
+   * @param part The part this directive is bound to (`null` during server rendering)
+   * @param host The element that owns the template, if known
+   */
+  constructor(
+    protected part: Part,
+    protected host: HTMLElement | null,
+  ) {}
+
+  /**
+   * Produces the value from the directive arguments.
+   * Must not touch the part or the DOM, it is also used for server rendering.
+   */
+  abstract render(...args: Args): unknown;
+
+  /**
+   * Called on every template update. Defaults to `render`.
+   * Override to read or write the part directly, return `noChange` to skip the commit.
+   */
+  update(...args: Args): unknown {
+    return this.render(...args);
+  }
+
+  /**
+   * Commits a value to the part outside of a template update, e.g. once a promise resolves.
+   * Ignored when the directive is no longer bound (and during server rendering).
+   */
+  protected setValue(value: unknown) {
+    this.commit?.(value);
+  }
+
+  /** Called when the directive is bound while the host is connected, and when the host reconnects. */
+  connected(): void {}
+
+  /** Called when the host disconnects, or the directive is unbound from its part. */
+  disconnected(): void {}
+}
+
+/**
+ * Turns a directive class into the function used inside templates.
+ * @param constructor The directive class
+ * @returns A function that captures its arguments into a `DirectiveResult`
+ */
+export function directive<D extends Directive>(constructor: DirectiveConstructor<D>) {
+  return (...args: Parameters<D["render"]>): DirectiveResult<D> => ({ __directive: constructor, args });
+}
+
+/**
+ * Checks whether a template value is a directive call.
+ */
+export function isDirectiveResult(value: unknown): value is DirectiveResult {
+  return !!value && typeof value === "object" && typeof (value as any).__directive === "function";
+}
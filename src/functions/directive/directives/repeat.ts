@@ -0,0 +1,45 @@
+import { Directive, directive } from "@functions/directive/directive";
+import { keyed } from "@functions/part/parts/list-part";
+
+/**
+ * @fileoverview `repeat` directive: renders an iterable as a keyed list.
+ *
+ * @details
+ * - Every item is identified by `keyFn(item, index)` instead of its position,
+ *   so reordering, inserting or removing items moves the existing DOM rather than
+ *   re-applying values into other nodes. Focus and element state follow their item.
+ * - Usable in any content position, with or without surrounding markup.
+ *
+ * @example
+ * ```ts
+ * html`<tbody>
+ *   ${repeat(this.rows, row => row.id, row => html`<tr><td>${row.name}</td></tr>`)}
+ * </tbody>`
+ * ```
+ *
+ * @see ListPart
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+class Repeat extends Directive {
+  render(
+    items: Iterable<any>,
+    keyFn: (item: any, index: number) => unknown,
+    template: (item: any, index: number) => unknown,
+  ) {
+    const values: unknown[] = [];
+    const keys: unknown[] = [];
+
+    let index = 0;
+    for (const item of items) {
+      keys.push(keyFn(item, index));
+      values.push(template(item, index));
+      index++;
+    }
+
+    return keyed(values, keys);
+  }
+}
+
+export const repeat = directive(Repeat);
@@ -0,0 +1,156 @@
+import { Directive, directive, noChange } from "@functions/directive/directive";
+import { nothing } from "@html/constants";
+
+/**
+ * @fileoverview `until` directive: renders asynchronous values once they arrive.
+ *
+ * @details
+ * - Accepts Promises, AsyncIterables and Observable-like objects with a `subscribe` method,
+ *   mixed with plain values used as placeholders.
+ * - Arguments are in priority order: a value is only rendered while no argument before it has produced one.
+ *   The first plain value renders right away, async arguments after it are ignored.
+ * - Binding the same arguments again keeps the running subscriptions.
+ * - New arguments cancel the previous subscriptions, so late results of a superseded promise are ignored.
+ * - Subscriptions are cancelled when the binding changes or the host disconnects, and started
+ *   again when it reconnects (async iterators that were cancelled are not resumed).
+ * - Bound implicitly when a template value is itself async: `${fetchUser()}` is `${until(fetchUser())}`.
+ *
+ * @example
+ * ```ts
+ * html`<p>${until(this.loadBio(), html`<span class="spinner"></span>`)}</p>`
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+export type Subscribable<T = unknown> = {
+  subscribe(next: (value: T) => void): (() => void) | { unsubscribe(): void } | void;
+}
+
+/**
+ * Checks whether a value is a Promise (thenable), an AsyncIterable or a subscribable (Observable-like).
+ */
+export function isAsyncValue(value: unknown): value is PromiseLike<unknown> | AsyncIterable<unknown> | Subscribable {
+  if (!value || (typeof value !== "object" && typeof value !== "function")) return false;
+  return typeof (value as any).then === "function"
+    || typeof (value as any)[Symbol.asyncIterator] === "function"
+    || typeof (value as any).subscribe === "function";
+}
+
+class Until extends Directive<unknown[]> {
+  private sources: unknown[] = [];
+  // index of the argument currently rendered, lower wins
+  private shown = Infinity;
+  private cancels: Array<() => void> = [];
+  private active = false;
+  // a value emitted synchronously while subscribing, returned from `update` instead
+  private pending: { value: unknown } | null = null;
+  private updating = false;
+
+  render(...values: unknown[]) {
+    const placeholder = values.find(value => !isAsyncValue(value));
+    return placeholder ?? nothing;
+  }
+
+  update(...values: unknown[]) {
+    if (values.length === this.sources.length && values.every((value, i) => value === this.sources[i])) return noChange;
+
+    this.cancel();
+    this.sources = values;
+
+    const index = values.findIndex(value => !isAsyncValue(value));
+    this.shown = index < 0 ? values.length : index;
+
+    this.pending = null;
+    this.updating = true;
+    if (this.active) this.subscribe();
+    this.updating = false;
+
+    // set by `emit` during `subscribe`, out of sight for control flow narrowing
+    const pending = this.pending as { value: unknown } | null;
+    if (pending) return pending.value;
+    if (index >= 0) return values[index];
+
+    // keep the previous content until the new sources produce a value
+    return this.value === undefined ? nothing : noChange;
+  }
+
+  connected() {
+    this.active = true;
+    this.subscribe();
+  }
+
+  disconnected() {
+    this.active = false;
+    this.cancel();
+  }
+
+  private subscribe() {
+    if (this.cancels.length > 0) return;
+
+    for (let i = 0; i < this.sources.length; i++) {
+      const source = this.sources[i];
+      if (!isAsyncValue(source)) break;
+      this.cancels.push(subscribe(source, value => this.emit(i, value)));
+    }
+  }
+
+  private emit(index: number, value: unknown) {
+    if (index > this.shown) return;
+    this.shown = index;
+
+    if (this.updating) this.pending = { value };
+    else this.setValue(value);
+  }
+
+  private cancel() {
+    this.cancels.forEach(cancel => cancel());
+    this.cancels = [];
+  }
+}
+
+/**
+ * Listens to an async source.
+ * @returns A function that cancels the subscription, values arriving afterwards are dropped
+ */
+function subscribe(source: PromiseLike<unknown> | AsyncIterable<unknown> | Subscribable, next: (value: unknown) => void) {
+  let active = true;
+  const emit = (value: unknown) => {
+    if (active) next(value);
+  };
+
+  if (typeof (source as PromiseLike<unknown>).then === "function") {
+    (source as PromiseLike<unknown>).then(emit, error => {
+      if (active) console.error("[error] until: promise rejected", error);
+    });
+    return () => { active = false; };
+  }
+
+  if (typeof (source as AsyncIterable<unknown>)[Symbol.asyncIterator] === "function") {
+    const iterator = (source as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+    (async () => {
+      while (active) {
+        const result = await iterator.next();
+        if (result.done) break;
+        emit(result.value);
+      }
+    })().catch(error => {
+      if (active) console.error("[error] until: async iterator failed", error);
+    });
+    return () => {
+      active = false;
+      // a generator failing while it closes is of no interest anymore
+      Promise.resolve(iterator.return?.()).catch(() => {});
+    };
+  }
+
+  const subscription = (source as Subscribable).subscribe(emit);
+  return () => {
+    active = false;
+    if (typeof subscription === "function") subscription();
+    else subscription?.unsubscribe();
+  };
+}
+
+export const until = directive(Until);
@@ -0,0 +1,14 @@
+export {
+  Directive,
+  directive,
+  noChange,
+  isDirectiveResult,
+} from "./directive";
+
+export type {
+  DirectiveConstructor,
+  DirectiveResult,
+} from "./types";
+
+export { repeat } from "./directives/repeat";
+export { until, isAsyncValue, type Subscribable } from "./directives/until";
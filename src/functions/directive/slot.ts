@@ -0,0 +1,78 @@
+import type { Part } from "@functions/part/types";
+import { Directive, isDirectiveResult, noChange } from "./directive";
+import { isAsyncValue, until } from "./directives/until";
+
+/**
+ * @fileoverview Holds the directive bound to one binding position of a part.
+ *
+ * @details
+ * - Creates the directive on first use and reuses it while the same directive is bound.
+ * - Swapping to another directive or to a plain value disconnects the previous one.
+ * - Forwards host connect/disconnect to the directive.
+ * - With `resolveAsync` (text and attribute positions) async values (Promises, AsyncIterables, subscribables)
+ *   are bound through the `until` directive. Other parts get them as they are, e.g. `.store=${store}`.
+ * - Values a directive commits later through `setValue` are handed to the part's `commit` callback.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+export class DirectiveSlot {
+  private instance: Directive | null = null;
+  private connected: boolean;
+
+  constructor(
+    private part: Part,
+    private host: HTMLElement | null,
+    private commit?: (value: unknown) => void,
+    private resolveAsync = false,
+  ) {
+    this.connected = host?.isConnected ?? true;
+  }
+
+  /**
+   * Runs the directive if the value is a directive call.
+   * @returns The value to commit, plain values are passed through and `noChange` means skip.
+   */
+  resolve(value: unknown): unknown {
+    if (this.resolveAsync && isAsyncValue(value)) value = until(value);
+
+    if (!isDirectiveResult(value)) {
+      this.clear();
+      return value;
+    }
+
+    if (!(this.instance instanceof value.__directive)) {
+      this.clear();
+      const instance = new value.__directive(this.part, this.host);
+      instance.commit = result => {
+        if (this.instance !== instance || !this.commit) return;
+        instance.value = result;
+        this.commit(result);
+      };
+      this.instance = instance;
+      if (this.connected) this.instance.connected();
+    }
+
+    const result = this.instance.update(...value.args);
+    if (result !== noChange) this.instance.value = result;
+
+    return result;
+  }
+
+  setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+
+    if (!this.instance) return;
+    if (connected) this.instance.connected();
+    else this.instance.disconnected();
+  }
+
+  /** Unbinds the current directive, if any. */
+  clear() {
+    if (!this.instance) return;
+    if (this.connected) this.instance.disconnected();
+    this.instance.commit = undefined;
+    this.instance = null;
+  }
+}
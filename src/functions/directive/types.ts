@@ -0,0 +1,13 @@
+import type { Part } from "@functions/part/types";
+import type { Directive } from "./directive";
+
+export type DirectiveConstructor<D extends Directive = Directive> = new (part: Part, host: HTMLElement | null) => D;
+
+/**
+ * What a directive function returns, used as a template value.
+ * The part creates (or reuses) the directive instance and calls `update` with `args`.
+ */
+export type DirectiveResult<D extends Directive = Directive> = {
+  __directive: DirectiveConstructor<D>;
+  args: unknown[];
+}
@@ -0,0 +1,6 @@
+/**
+ * Sentinel value that renders nothing: no content in a text position,
+ * no attribute in an attribute position.
+ * Registered globally so it is recognised across separately bundled copies.
+ */
+export const nothing = Symbol.for("papit.nothing");
@@ -6,10 +6,14 @@
  * @details
  * **Features:**
  * - **Compilation & Caching** — Templates are compiled into DOM once and reused on subsequent calls.
- * - **Dynamic Value Markers** — Injects comment markers to identify and update dynamic values.
+ * - **Dynamic Value Markers** — Injects comment markers to identify and update dynamic values,
+ *   with a random token per template so markers written in the static markup are not taken for values.
  * - **Metadata Tracking** — Associates root elements with their latest set of dynamic values.
- * - **Root Normalization** — Ensures a single Element root is always returned, wrapping as needed.
+ * - **Root Normalization** — A single root element is returned as-is, several root nodes become a
+ *   `DocumentFragment` bounded by `<!--template-start-->` / `<!--template-end-->` comments.
  * - **Quoting Fixes** — Automatically adds missing attribute quotes for valid HTML output.
+ * - **Property Bindings** — `.prop=${value}` and `:prop=${ref}` names keep their case through parsing.
+ * - **Trusted Types** — The markup is parsed through the `papit-html` policy, see `trusted-types.ts`.
  *
  * **Usage Flow:**
  * 1. The `html` function compiles or retrieves a cached template root.
@@ -37,13 +41,26 @@
  * Henry Pap (GitHub: @onkelhoy)
  */
 
+import type { TemplateRoot } from "./types";
+import { discardPrecompiled, getPrecompiled, PrecompiledDescriptor, resolvePath } from "./precompiled";
+import { recordSource } from "./validate";
+import { assertTemplateStrings, trustedMarkup } from "./trusted-types";
+
 // Metadata map to associate root elements with their dynamic values
 // Used to store the latest set of values applied to a rendered template
-const metadataMap = new WeakMap<Element, any[]>();
+const metadataMap = new WeakMap<TemplateRoot, any[]>();
 
 // Cache storing compiled root elements per unique template literal strings array
 // Prevents re-parsing and re-creating DOM for the same template literal strings
-const cachedElements = new WeakMap<TemplateStringsArray, Element>();
+const cachedElements = new WeakMap<TemplateStringsArray, TemplateRoot>();
+
+// Template literal strings array each root was created from
+// Used to tell whether a new root comes from the same template as the rendered one
+const stringsMap = new WeakMap<TemplateRoot, TemplateStringsArray>();
+
+// Marker comment text of each template compiled at runtime
+// A random token per template, so a `<!--marker-->` written in the static markup is not taken for a value
+const markerTokens = new WeakMap<TemplateStringsArray, string>();
 
 /**
  * The main `html` tagged template function.
@@ -53,19 +70,33 @@ const cachedElements = new WeakMap<TemplateStringsArray, Element>();
  * 
  * @param templateStringArray Template literal strings array (the static parts of the template)
  * @param values Dynamic values passed into the template literal
- * @returns Root Element representing the compiled template DOM
+ * @returns Root Element, or bounded fragment, representing the compiled template DOM
  */
-export function html(templateStringArray: TemplateStringsArray, ...values: unknown[]): Element {
+export function html(templateStringArray: TemplateStringsArray, ...values: unknown[]): TemplateRoot {
+  // the markup is trusted because it comes from the source, an array built at runtime could hold anything
+  assertTemplateStrings(templateStringArray, "html");
+
+  // Without a DOM (server rendering) the raw strings are kept so the template can be serialized
+  if (typeof document === "undefined") {
+    const serverRoot = { __isTemplateRoot: true, strings: templateStringArray, values } as unknown as Element;
+    metadataMap.set(serverRoot, values);
+    stringsMap.set(serverRoot, templateStringArray);
+    return serverRoot;
+  }
+
+  recordSource(templateStringArray);
+
   // Compile or get cached DOM for this template string array
   const proto = compile(templateStringArray, values);
 
-  const root = proto.cloneNode(true) as Element;
+  const root = proto.cloneNode(true) as TemplateRoot;
 
   // mark this clone as an actual template root and attach its values
   (root as any).__isTemplateRoot = true;
 
   // Store the dynamic values associated with this root element
   metadataMap.set(root, values);
+  stringsMap.set(root, templateStringArray);
 
   return root;
 }
@@ -73,19 +104,43 @@ export function html(templateStringArray: TemplateStringsArray, ...values: unkno
 /**
  * Compiles the template strings array into a root Element.
  * Caches the resulting Element for future calls with the same template.
+ * Templates precompiled at build time (see `precompiled`) skip the tree walk for their parts.
  * 
  * @param templateStringArray The template literal strings array
- * @returns Root Element of the compiled template
+ * @returns Root of the compiled template
  */
-function compile(templateStringArray: TemplateStringsArray, values: unknown[]): Element {
+function compile(templateStringArray: TemplateStringsArray, values: unknown[]): TemplateRoot {
   // Return cached root element if it exists
   if (cachedElements.has(templateStringArray)) {
     return cachedElements.get(templateStringArray)!;
   }
 
-  // Create a <template> element for safe HTML parsing
-  const template = document.createElement('template');
+  // precompiled templates locate their markers by path, a static `<!--marker-->` is rejected at build time
+  const descriptors = getPrecompiled(templateStringArray);
+  let root = descriptors && fromPrecompiled(templateStringArray, descriptors, values);
+  if (!root)
+  {
+    const token = createMarkerToken();
+    markerTokens.set(templateStringArray, token);
+    root = parse(getMarkup(templateStringArray, values, token));
+  }
+
+  // Cache the compiled root element for reuse
+  cachedElements.set(templateStringArray, root);
+
+  return root;
+}
 
+/**
+ * Joins the template strings into HTML, inserting comment markers for the dynamic parts.
+ * Used at runtime and by the build-time precompiler, which passes no arrays.
+ * 
+ * @param templateStringArray The template literal strings array
+ * @param values The values of the first call, arrays outside of tags get a `<!--list-marker-->`
+ * @param token The marker comment text, `<!--token-->` for values and `<!--list-token-->` for arrays
+ * @returns The markup to parse
+ */
+export function getMarkup(templateStringArray: readonly string[], values: unknown[], token = "marker"): string {
   // This flag helps fix attribute quoting issues by adding quotes where needed
   let expectQuote = false;
 
@@ -95,6 +150,12 @@ function compile(templateStringArray: TemplateStringsArray, values: unknown[]):
   {
     let fixedStr = templateStringArray[i];
 
+    // The parser lower-cases attribute names, so `.prop` and `:prop` bindings keep their case as `-lower`
+    fixedStr = fixedStr.replace(
+      /(\s[.:])([A-Za-z_$][\w$]*)((?:@[\w:-]+)?\s*=\s*["']?)$/,
+      (_match, dot: string, name: string, rest: string) => dot + name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`) + rest,
+    );
+
     // If last string ended with '=', ensure next string starts with '"'
     if (expectQuote) {
       if (!fixedStr.startsWith('"')) fixedStr = '"' + fixedStr;
@@ -112,38 +173,100 @@ function compile(templateStringArray: TemplateStringsArray, values: unknown[]):
     // guess this case should not happend but just for sanity 
     if (i >= values.length) continue;
 
-    // now append the markers 
-    if (Array.isArray(values[i])) 
-      result += '<!--list-marker-->';
+    // now append the markers, inside a tag (attributes, properties) arrays are plain values
+    const inTag = result.lastIndexOf('<') > result.lastIndexOf('>');
+    if (Array.isArray(values[i]) && !inTag) 
+      result += `<!--list-${token}-->`;
     else 
-      result += '<!--marker-->';
+      result += `<!--${token}-->`;
   }
-  template.innerHTML = result;
+  return result;
+}
+
+/**
+ * Parses markup into a normalized template root.
+ */
+function parse(markup: string): TemplateRoot {
+  // Create a <template> element for safe HTML parsing
+  const template = document.createElement('template');
+  template.innerHTML = trustedMarkup(markup);
 
   // Clone content from the template element to create a DocumentFragment
   const fragment = template.content.cloneNode(true) as DocumentFragment;
 
-  // Normalize the fragment into a root Element (unwraps single node or wraps multiple in a div)
-  const root = normalizeRoot(fragment);
-
-  // (root as any).__isTemplateRoot = true;
+  // Normalize the fragment into a root (unwraps a single element or bounds the fragment)
+  return normalizeRoot(fragment);
+}
 
-  // Cache the compiled root element for reuse
-  cachedElements.set(templateStringArray, root);
+/**
+ * Parses the markup of a precompiled template, built from its strings like the precompiler did,
+ * marking the values that are arrays as lists like the runtime does for the first call.
+ * @returns The root, or `null` when the precompiled paths do not match the parsed markup
+ */
+function fromPrecompiled(templateStringArray: TemplateStringsArray, descriptors: PrecompiledDescriptor[], values: unknown[]): TemplateRoot | null {
+  const root = parse(getMarkup(templateStringArray, new Array(values.length).fill(null)));
+  for (const entry of descriptors)
+  {
+    if (!("value" in entry)) continue;
 
+    const marker = resolvePath(root, entry.path);
+    if (!marker || marker.nodeType !== Node.COMMENT_NODE || marker.nodeValue !== "marker")
+    {
+      discardPrecompiled(templateStringArray);
+      return null;
+    }
+    if (Array.isArray(values[entry.value])) marker.nodeValue = "list-marker";
+  }
   return root;
 }
 
 /**
  * Retrieves the stored dynamic values metadata associated with a root element.
  * 
- * @param element Root element created by `html` function
+ * @param element Root element (or fragment) created by `html` function
  * @returns Array of dynamic values or undefined if none stored
  */
-export function getValues(element: Element) {
+export function getValues(element: TemplateRoot) {
   return metadataMap.get(element);
 }
 
+/**
+ * Retrieves the template literal strings array a root element was created from.
+ * 
+ * @param element Root element (or fragment) created by `html` function
+ * @returns The strings array or undefined if the root was not created by `html`
+ */
+export function getStrings(element: TemplateRoot) {
+  return stringsMap.get(element);
+}
+
+/**
+ * Retrieves the marker comment text of the template a root element was created from.
+ * 
+ * @param strings The template literal strings array, see `getStrings`
+ * @returns The random token of a template compiled at runtime, else `"marker"`
+ */
+export function getMarkerToken(strings?: TemplateStringsArray) {
+  return (strings && markerTokens.get(strings)) ?? "marker";
+}
+
+/**
+ * Creates a random marker token, content cannot guess it.
+ */
+function createMarkerToken() {
+  const bytes = new Uint8Array(8);
+  if (globalThis.crypto?.getRandomValues) globalThis.crypto.getRandomValues(bytes);
+  else bytes.forEach((_byte, index) => bytes[index] = Math.random() * 256);
+  return "marker-" + Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Checks whether a value is a root (element or fragment) created by the `html` function.
+ */
+export function isTemplateRoot(value: unknown): value is TemplateRoot {
+  return value instanceof Node && (value as any).__isTemplateRoot === true;
+}
+
 /**
  * Checks if a text node is empty or contains only whitespace.
  * 
@@ -158,43 +281,30 @@ function isEmptyTextNode(node: Node): boolean {
 }
 
 /**
- * Normalizes a DocumentFragment into a single root Element.
- * - If no children or only empty text nodes: returns an empty <div>
- * - If exactly one child node:
- *    - If element node, returns it directly
- *    - Otherwise wraps it in a <div>
- * - If multiple child nodes, wraps them in a <div>
- * 
- * This ensures the template always returns an Element as root.
+ * Normalizes a DocumentFragment into the template root.
+ * - If exactly one non-empty child node and it is an element: returns it directly
+ * - Otherwise (text, several nodes or nothing): returns the fragment itself,
+ *   bounded by `<!--template-start-->` and `<!--template-end-->` comments
+ *
+ * The boundaries let a `TemplateInstance` find (and remove) its nodes
+ * once the fragment has been emptied into the DOM.
  * 
  * @param fragment DocumentFragment containing template content
- * @returns Root Element for the template
+ * @returns Root for the template
  */
-function normalizeRoot(fragment: DocumentFragment): Element {
+function normalizeRoot(fragment: DocumentFragment): TemplateRoot {
   // Filter out empty text nodes among direct children
   const filteredChildren = Array.from(fragment.childNodes).filter(
     (node) => !isEmptyTextNode(node)
   );
 
-  if (filteredChildren.length === 0) {
-    // No non-empty children - return empty div as fallback
-    return document.createElement('div');
-  }
-  
-  if (filteredChildren.length === 1) {
-    const single = filteredChildren[0];
-    // If single child is an element, return it directly
-    if (single.nodeType === Node.ELEMENT_NODE) return single as Element;
-    
-    // Otherwise, wrap it in a div to ensure an Element is returned
-    const wrapper = document.createElement('div');
-    wrapper.appendChild(single);
-    return wrapper;
+  // If single child is an element, return it directly
+  if (filteredChildren.length === 1 && filteredChildren[0].nodeType === Node.ELEMENT_NODE) {
+    return filteredChildren[0] as Element;
   }
-  
-  // Multiple children - wrap all in a div container
-  const wrapper = document.createElement('div');
-  filteredChildren.forEach((node) => wrapper.appendChild(node));
-  return wrapper;
+
+  fragment.prepend(document.createComment('template-start'));
+  fragment.append(document.createComment('template-end'));
+  return fragment;
 }
 
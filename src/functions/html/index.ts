@@ -1,4 +1,26 @@
 export {
   html,
   getValues,
-} from "./html";
\ No newline at end of file
+  isTemplateRoot,
+} from "./html";
+
+export {
+  precompiled,
+  type PrecompiledTemplate,
+  type PrecompiledDescriptor,
+} from "./precompiled";
+
+export {
+  nothing,
+} from "./constants";
+
+export {
+  unsafeHTML,
+  isUnsafeHTML,
+  UnsafeHTML,
+} from "./unsafe-html";
+
+export type {
+  TemplateRoot,
+  TrustedHTML,
+} from "./types";
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Registry of templates precompiled at build time (see the `precompile` esbuild plugin).
+ *
+ * @details
+ * The plugin replaces `` html`...` `` with `html(template, ...values)`, where `template` is created once per
+ * call site by `` precompiled(descriptors)`...` ``, a tagged template holding the same strings:
+ * - `descriptors` are the child index paths (from the template root) of the dynamic parts, in template order,
+ *   so `getDescriptors` resolves them instead of walking the tree.
+ * - Only the strings array of a template literal is registered, its markup is built from the strings at runtime,
+ *   so a registration cannot bring markup of its own past the `papit-html` Trusted Types policy.
+ *
+ * A template whose paths do not match the parsed markup is discarded (with a warning) and takes the runtime path.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import type { TemplateRoot } from "./types";
+import { assertTemplateStrings } from "./trusted-types";
+
+export type PrecompiledDescriptor =
+  /** a `<!--marker-->` between nodes, `value` is the index of its value */
+  | { path: number[], value: number }
+  /** an element with bindings, `attributes` are the names of the attributes holding markers */
+  | { path: number[], attributes: string[] };
+
+export type PrecompiledTemplate = {
+  markup: string;
+  descriptors: PrecompiledDescriptor[];
+};
+
+const templates = new WeakMap<TemplateStringsArray, PrecompiledDescriptor[]>();
+
+/**
+ * Creates the tag registering a precompiled template, called by the code the `precompile` plugin emits.
+ *
+ * @example
+ * ```js
+ * const template = precompiled([{ path: [0], value: 0 }])`<p>${0}</p>`;
+ * html(template, name);
+ * ```
+ *
+ * @param descriptors The descriptor paths computed at build time
+ * @returns A tag returning the strings array of its template literal, to pass to `html`
+ */
+export function precompiled(descriptors: PrecompiledDescriptor[]) {
+  return (strings: TemplateStringsArray, ..._values: unknown[]): TemplateStringsArray => {
+    assertTemplateStrings(strings, "precompiled");
+    templates.set(strings, descriptors);
+    return strings;
+  };
+}
+
+/**
+ * The precompiled descriptor paths of a strings array, if any.
+ */
+export function getPrecompiled(strings: TemplateStringsArray | undefined) {
+  return strings ? templates.get(strings) : undefined;
+}
+
+/**
+ * Falls back to the runtime path for a template whose precompiled paths do not match the parsed markup.
+ */
+export function discardPrecompiled(strings: TemplateStringsArray) {
+  if (!templates.delete(strings)) return;
+  console.warn("[warn] html: a precompiled template does not match its parsed markup, it is compiled at runtime instead", strings.join("${}"));
+}
+
+/**
+ * Follows child indexes from the root, `null` when a step does not exist.
+ */
+export function resolvePath(root: TemplateRoot, path: number[]): Node | null {
+  let node: Node | null = root;
+  for (const index of path)
+  {
+    node = node.childNodes[index] ?? null;
+    if (!node) return null;
+  }
+  return node;
+}
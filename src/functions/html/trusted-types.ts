@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Trusted Types support for parsing template markup.
+ *
+ * @details
+ * Under a `require-trusted-types-for 'script'` CSP, assigning a string to `innerHTML` throws.
+ * Template markup only holds the static template strings and comment markers, values never become markup,
+ * so it is passed through the `papit-html` policy unchanged.
+ * Allow the policy with `trusted-types papit-html`.
+ *
+ * That only holds for strings written in the source, so `html` and `precompiled` accept the strings array
+ * of a template literal only (frozen, with `raw`), never an array built at runtime.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import type { TrustedHTML } from "./types";
+
+type TrustedTypePolicy = {
+  createHTML(input: string): TrustedHTML;
+};
+
+type TrustedTypePolicyFactory = {
+  createPolicy(name: string, rules: { createHTML(input: string): string }): TrustedTypePolicy;
+};
+
+export const POLICY_NAME = "papit-html";
+
+// created on first use, `null` when Trusted Types are not supported or the policy is not allowed
+let policy: TrustedTypePolicy | null | undefined;
+
+/**
+ * Wraps template markup for `innerHTML`, a `TrustedHTML` when the browser supports Trusted Types.
+ *
+ * @param markup Markup built from the static template strings only
+ */
+export function trustedMarkup(markup: string): string {
+  if (policy === undefined) policy = createPolicy();
+  // `innerHTML` is typed as string but accepts TrustedHTML
+  return policy ? policy.createHTML(markup) as unknown as string : markup;
+}
+
+/**
+ * Throws unless `strings` is the strings array of a template literal.
+ *
+ * @param strings The strings passed as first argument of a tag
+ * @param tag The name of the tag, for the error message
+ */
+export function assertTemplateStrings(strings: unknown, tag: string): asserts strings is TemplateStringsArray {
+  const raw = Array.isArray(strings) ? (strings as { raw?: unknown }).raw : undefined;
+  const valid = Object.isFrozen(strings) && Array.isArray(raw) && Object.isFrozen(raw);
+  if (!valid) throw new TypeError(`[error] html: ${tag} only accepts the strings of a template literal, use it as a tag`);
+}
+
+function createPolicy(): TrustedTypePolicy | null {
+  const factory = (globalThis as { trustedTypes?: TrustedTypePolicyFactory }).trustedTypes;
+  if (!factory) return null;
+
+  try
+  {
+    return factory.createPolicy(POLICY_NAME, { createHTML: markup => markup });
+  }
+  catch (error)
+  {
+    console.error(`[error] html: the Trusted Types policy "${POLICY_NAME}" could not be created, allow it with "trusted-types ${POLICY_NAME}"`, error);
+    return null;
+  }
+}
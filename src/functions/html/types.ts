@@ -0,0 +1,13 @@
+/**
+ * Result of the `html` tag.
+ * A single root element is returned as-is, templates with several root nodes
+ * become a fragment bounded by `<!--template-start-->` and `<!--template-end-->`.
+ */
+export type TemplateRoot = Element | DocumentFragment;
+
+/**
+ * A `TrustedHTML` object of the Trusted Types API (not part of the DOM typings yet).
+ */
+export type TrustedHTML = {
+  toJSON(): string;
+};
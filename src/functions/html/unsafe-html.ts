@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Explicit wrapper for values that are meant to render as markup.
+ *
+ * @details
+ * Strings are always inserted as text. `unsafeHTML` marks the rare value that is raw markup,
+ * it is parsed and inserted as nodes in text positions (and serialized as-is on the server).
+ * Never pass it untrusted input: it runs no sanitizing.
+ * Under Trusted Types, pass a `TrustedHTML` from your own (sanitizing) policy, a string is rejected by the browser.
+ *
+ * @example
+ * ```ts
+ * html`<article>${unsafeHTML(renderedMarkdown)}</article>`
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import type { TrustedHTML } from "./types";
+
+// registered globally so it is recognised across separately bundled copies
+const UNSAFE_HTML = Symbol.for("papit.unsafe-html");
+
+/**
+ * Markup wrapped by `unsafeHTML`.
+ */
+export class UnsafeHTML {
+  readonly [UNSAFE_HTML] = true;
+
+  constructor(readonly markup: string | TrustedHTML) {}
+
+  toString() {
+    return String(this.markup);
+  }
+}
+
+/**
+ * Marks markup to be rendered as HTML instead of text.
+ *
+ * @param markup Trusted markup, a string or a `TrustedHTML`
+ * @returns A value for a text position of an `html` template
+ */
+export function unsafeHTML(markup: string | TrustedHTML): UnsafeHTML {
+  return new UnsafeHTML(markup);
+}
+
+/**
+ * Checks whether a value was created by `unsafeHTML`.
+ */
+export function isUnsafeHTML(value: unknown): value is UnsafeHTML {
+  return typeof value === "object" && value !== null && (value as UnsafeHTML)[UNSAFE_HTML] === true;
+}
+
+/**
+ * Parses the markup of an `unsafeHTML` value into nodes.
+ */
+export function parseUnsafeHTML(value: UnsafeHTML): Node[] {
+  const template = document.createElement("template");
+  // a TrustedHTML passes through, a string throws under enforced Trusted Types
+  template.innerHTML = value.markup as string;
+  return Array.from(template.content.childNodes);
+}
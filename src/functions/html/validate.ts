@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Development checks for `html` templates.
+ *
+ * @details
+ * Values in positions the marker system cannot bind (tag names, attribute names, comments,
+ * raw text elements, unquoted attribute values) break the parsed DOM or leak `<!--marker-->` into the page.
+ * The first time a template is instantiated its strings are checked, and the number of values
+ * is compared with the bindings `getDescriptors` found.
+ * Problems are logged once per template with a snippet, the component tag name and the `html` call site.
+ *
+ * Both entry points return right away unless `DEV` (see `@functions/dev/dev`), so production bundles drop the checks.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import { DEV } from "@functions/dev/dev";
+
+type ScanState =
+  | "text" | "raw" | "comment"
+  | "tagName" | "tag" | "attrName" | "afterName"
+  | "beforeValue" | "quoted" | "unquoted";
+
+// the parser reads the content of these as text, markers inside stay visible
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title", "xmp", "iframe", "noembed", "noframes", "noscript"]);
+
+const SNIPPET_LENGTH = 30;
+
+// templates already checked, so each problem is logged once
+const validated = new WeakSet<TemplateStringsArray>();
+// `html` call site of each template
+const sources = new WeakMap<TemplateStringsArray, string>();
+
+/**
+ * Remembers where a template is written, called by `html`.
+ */
+export function recordSource(strings: TemplateStringsArray) {
+  if (!DEV || sources.has(strings)) return;
+
+  // frames: recordSource, html, the caller
+  const frames = (new Error().stack ?? "").split("\n").filter(line => /:\d+:\d+\)?\s*$/.test(line));
+  const frame = frames[2]?.trim().replace(/^at\s+/, "");
+  if (frame) sources.set(strings, frame);
+}
+
+/**
+ * Checks a template the first time it is instantiated and logs what is wrong with it.
+ *
+ * @param strings The template strings
+ * @param bindings Number of values the parts found by `getDescriptors` consume
+ * @param host The component rendering the template, if any
+ */
+export function validateTemplate(strings: TemplateStringsArray | undefined, bindings: number, host: HTMLElement | null) {
+  if (!DEV || !strings || validated.has(strings)) return;
+  validated.add(strings);
+
+  const problems = findProblems(strings);
+  // a specific problem explains the mismatch already
+  if (problems.length === 0 && bindings !== strings.length - 1)
+  {
+    const found = `${bindings} binding${bindings === 1 ? " was" : "s were"} found`;
+    problems.push(`the template has ${strings.length - 1} values but ${found}:\n    ${snippet(strings.join("${…}"), 0)}`);
+  }
+  if (problems.length === 0) return;
+
+  const source = sources.get(strings);
+  console.error([
+    `[error] html: invalid template${host ? ` in <${host.localName}>` : ""}`,
+    ...problems,
+    ...(source ? [`at ${source}`] : []),
+  ].join("\n  "));
+}
+
+/**
+ * Follows the HTML tokenizer through the strings and describes every value in a position it cannot bind.
+ */
+function findProblems(strings: readonly string[]): string[] {
+  const problems: string[] = [];
+  let state: ScanState = "text";
+  let tagName = "";
+  let closing = false;
+  let rawTag = "";
+  let quote = "";
+  // where the last quoted value opened, in the strings joined by `${…}`
+  let quoteOffset = 0;
+  let offset = 0;
+
+  for (let index = 0; index < strings.length; index++)
+  {
+    let text = strings[index];
+    let skipped = 0;
+
+    // `compile()` quotes a value written directly after `=`, the quote closes at the start of the next string
+    if (index > 0 && state === "beforeValue" && strings[index - 1].endsWith("="))
+    {
+      state = "tag";
+      if (text.startsWith('"'))
+      {
+        text = text.slice(1);
+        skipped = 1;
+      }
+    }
+
+    for (let i = 0; i < text.length; i++)
+    {
+      const char = text[i];
+      switch (state)
+      {
+        case "text":
+          if (text.startsWith("<!--", i))
+          {
+            state = "comment";
+            i += 3;
+          }
+          else if (char === "<" && /[a-zA-Z]/.test(text[i + 1] ?? ""))
+          {
+            state = "tagName";
+            tagName = "";
+            closing = false;
+          }
+          else if (char === "<" && text[i + 1] === "/" && /[a-zA-Z]/.test(text[i + 2] ?? ""))
+          {
+            state = "tagName";
+            tagName = "";
+            closing = true;
+            i++;
+          }
+          break;
+        case "raw":
+          if (text.slice(i, i + rawTag.length + 2).toLowerCase() === `</${rawTag}`)
+          {
+            state = "tagName";
+            tagName = "";
+            closing = true;
+            i++;
+          }
+          break;
+        case "comment":
+          if (text.startsWith("-->", i))
+          {
+            state = "text";
+            i += 2;
+          }
+          break;
+        case "tagName":
+          if (/\s|\//.test(char)) state = "tag";
+          else if (char === ">") state = endTag(tagName, closing);
+          else tagName += char.toLowerCase();
+          break;
+        case "tag":
+          if (char === ">") state = endTag(tagName, closing);
+          else if (!/\s|\//.test(char)) state = "attrName";
+          break;
+        case "attrName":
+          if (char === "=") state = "beforeValue";
+          else if (/\s/.test(char)) state = "afterName";
+          else if (char === ">") state = endTag(tagName, closing);
+          break;
+        case "afterName":
+          if (char === "=") state = "beforeValue";
+          else if (char === ">") state = endTag(tagName, closing);
+          else if (!/\s/.test(char)) state = "attrName";
+          break;
+        case "beforeValue":
+          if (char === '"' || char === "'")
+          {
+            state = "quoted";
+            quote = char;
+            quoteOffset = offset + skipped + i;
+          }
+          else if (char === ">") state = endTag(tagName, closing);
+          else if (!/\s/.test(char)) state = "unquoted";
+          break;
+        case "quoted":
+          if (char === quote) state = "tag";
+          break;
+        case "unquoted":
+          if (/\s/.test(char)) state = "tag";
+          else if (char === ">") state = endTag(tagName, closing);
+          break;
+      }
+    }
+
+    offset += strings[index].length + "${…}".length;
+    if (index === strings.length - 1) break;
+
+    const problem = describePosition(state, text, rawTag);
+    if (problem) problems.push(`${problem}:\n    ${valueSnippet(strings, index)}`);
+  }
+
+  if (state === "quoted")
+  {
+    problems.push(`an attribute value is never closed:\n    ${snippet(strings.join("${…}"), quoteOffset)}`);
+  }
+
+  return problems;
+
+  function endTag(name: string, isClosing: boolean): ScanState {
+    if (!isClosing && RAW_TEXT_ELEMENTS.has(name))
+    {
+      rawTag = name;
+      return "raw";
+    }
+    return "text";
+  }
+}
+
+/**
+ * Describes why a value at the end of `text` cannot bind, `null` when it can.
+ */
+function describePosition(state: ScanState, text: string, rawTag: string): string | null {
+  switch (state)
+  {
+    case "text": return /<\/?$/.test(text) ? "a value as tag name is not supported" : null;
+    case "tagName": return "a value in a tag name is not supported";
+    case "tag":
+    case "attrName":
+    case "afterName": return "a value as attribute name is not supported";
+    case "comment": return "a value inside a comment is not supported";
+    case "raw": return `a value inside <${rawTag}> is not supported, it is read as text`;
+    case "unquoted": return "a value inside an unquoted attribute value is not supported, quote the value";
+    // `compile()` only quotes a value written directly after `=`
+    case "beforeValue": return text.endsWith("=") ? null : "a value has to follow `=` directly";
+    default: return null;
+  }
+}
+
+function valueSnippet(strings: readonly string[], index: number) {
+  const before = strings[index].replace(/\s+/g, " ");
+  const after = strings[index + 1].replace(/\s+/g, " ");
+  return (before.length > SNIPPET_LENGTH ? "…" + before.slice(-SNIPPET_LENGTH) : before)
+    + "${…}"
+    + (after.length > SNIPPET_LENGTH ? after.slice(0, SNIPPET_LENGTH) + "…" : after);
+}
+
+function snippet(text: string, from: number) {
+  const start = Math.max(0, from - SNIPPET_LENGTH);
+  const end = from + SNIPPET_LENGTH * 2;
+  return (start > 0 ? "…" : "")
+    + text.slice(start, end).replace(/\s+/g, " ")
+    + (end < text.length ? "…" : "");
+}
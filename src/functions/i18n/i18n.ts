@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Translations: locale catalogs, message formatting and a global locale switch.
+ *
+ * @details
+ * - Catalogs are JSON objects of `key: message` (nested objects are reached with dotted keys),
+ *   with an optional `meta` entry (`region`, `language`) like `asset/translations/en.json`.
+ * - `registerTranslations` takes a catalog or a loader, loaders run the first time the locale is needed.
+ *   Several registrations of a locale are merged (later keys win), so the package's own `en` catalog stays.
+ * - `translate` / `t` formats a message with ICU-style arguments:
+ *   `{name}`, `{count, plural, =0 {none} one {# item} other {# items}}`,
+ *   `{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}` and `{kind, select, a {...} other {...}}`.
+ *   Plural categories come from `Intl.PluralRules` for the current locale.
+ * - A key missing in the current locale falls back to the default locale (then the key itself) with a warning.
+ *   Missing keys and catalogs are only reported in development (`DEV`), production bundles drop the warnings.
+ * - `translate` reads a signal, so `CustomElement.render()` calls are tracked, and so is the commit that follows
+ *   (e.g. `repeat` callbacks): `setLocale` re-renders every connected element that translated while rendering.
+ *
+ * @example
+ * ```ts
+ * registerTranslations("sv", () => import("./translations/sv.json"));
+ *
+ * class Cart extends CustomElement {
+ *   render() {
+ *     return html`<p>${t("cart.items", { count: this.items.length })}</p>`;
+ *   }
+ * }
+ *
+ * await setLocale("sv"); // every cart re-renders in Swedish
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import { signal } from "@functions/signal";
+import { DEV } from "@functions/dev/dev";
+import en from "../../../asset/translations/en.json";
+
+export type Catalog = {
+  meta?: { region?: string; language?: string };
+  [key: string]: unknown;
+};
+
+export type CatalogLoader = () => Promise<Catalog | { default: Catalog }>;
+
+export type TranslationValues = Record<string, unknown>;
+
+const sources = new Map<string, Array<Catalog | CatalogLoader>>([["en", [en]]]);
+const catalogs = new Map<string, Catalog>();
+const loading = new Map<string, Promise<Catalog | null>>();
+const warned = new Set<string>();
+
+let defaultLocale = "en";
+let currentLocale = "en";
+// counts the `setLocale` calls, a call whose catalogs load after a later call's must not win
+let localeRequest = 0;
+
+// bumped on every locale switch and catalog load, translations read it to be tracked
+const revision = signal(0);
+
+/**
+ * Registers a catalog for a locale, or a loader returning it (e.g. `() => import("./sv.json")`).
+ * It is merged with the catalogs registered before for the locale, its keys win.
+ */
+export function registerTranslations(locale: string, catalog: Catalog | CatalogLoader) {
+  sources.set(locale, [...(sources.get(locale) ?? []), catalog]);
+  catalogs.delete(locale);
+  loading.delete(locale);
+  if (locale === currentLocale || locale === defaultLocale) void loadCatalog(locale);
+}
+
+/**
+ * Switches the locale of every translation, once its catalog (and the default one) has loaded.
+ * Connected elements that translated while rendering re-render.
+ * When called again before the catalogs loaded, only the latest locale is applied.
+ */
+export async function setLocale(locale: string) {
+  const request = ++localeRequest;
+  await Promise.all([loadCatalog(locale), loadCatalog(defaultLocale)]);
+  if (request !== localeRequest) return;
+  currentLocale = locale;
+  revision.value++;
+}
+
+/**
+ * The current locale.
+ */
+export function getLocale() {
+  return currentLocale;
+}
+
+/**
+ * Sets the locale missing keys fall back to (`"en"` by default).
+ */
+export async function setDefaultLocale(locale: string) {
+  defaultLocale = locale;
+  await loadCatalog(locale);
+  revision.value++;
+}
+
+/**
+ * Translates a key into the current locale and formats it with the values.
+ *
+ * @param key The catalog key, dotted for nested objects
+ * @param values Values for the message arguments
+ * @returns The formatted message, or the key when no catalog has it
+ */
+export function translate(key: string, values: TranslationValues = {}): string {
+  void revision.value;
+
+  let locale = currentLocale;
+  let message = lookup(locale, key);
+  if (message === undefined && locale !== defaultLocale)
+  {
+    warn(`[warn] i18n: "${key}" is missing in "${locale}", falling back to "${defaultLocale}"`);
+    locale = defaultLocale;
+    message = lookup(locale, key);
+  }
+  if (message === undefined)
+  {
+    warn(`[warn] i18n: "${key}" is missing in "${defaultLocale}"`);
+    return key;
+  }
+
+  return format(message, values, locale);
+}
+
+/**
+ * Short alias of `translate` for templates.
+ */
+export const t = translate;
+
+/**
+ * Formats an ICU-style message, without looking it up.
+ */
+export function formatMessage(message: string, values: TranslationValues = {}, locale = currentLocale): string {
+  return format(message, values, locale);
+}
+
+// helper functions
+/**
+ * Finds the message of a key, starting to load the catalog when it is not there yet.
+ */
+function lookup(locale: string, key: string): string | undefined {
+  // catalogs registered as objects are there right away, loaders bump the revision once loaded
+  if (!catalogs.has(locale)) void loadCatalog(locale);
+  const catalog = catalogs.get(locale);
+  if (!catalog) return undefined;
+
+  let message: unknown = catalog[key];
+  if (message === undefined && key.includes("."))
+  {
+    message = key.split(".").reduce<any>((node, part) => node?.[part], catalog);
+  }
+  return typeof message === "string" ? message : undefined;
+}
+
+function loadCatalog(locale: string): Promise<Catalog | null> {
+  const catalog = catalogs.get(locale);
+  if (catalog) return Promise.resolve(catalog);
+
+  let pending = loading.get(locale);
+  if (pending) return pending;
+
+  const list = sources.get(locale);
+  if (!list)
+  {
+    warn(`[warn] i18n: no translations registered for "${locale}"`);
+    return Promise.resolve(null);
+  }
+
+  // only objects: available right away
+  if (list.every(source => typeof source !== "function"))
+  {
+    const merged = Object.assign({}, ...list) as Catalog;
+    catalogs.set(locale, merged);
+    return Promise.resolve(merged);
+  }
+
+  pending = Promise.all(list.map(source => typeof source === "function" ? source() : source)).then(
+    modules => {
+      const merged = Object.assign({}, ...modules.map(module => "default" in module && typeof module.default === "object" ? module.default : module)) as Catalog;
+      // a newer registration replaced this load
+      if (loading.get(locale) !== pending) return merged;
+      catalogs.set(locale, merged);
+      revision.value++;
+      return merged;
+    },
+    error => {
+      loading.delete(locale);
+      console.warn(`[warn] i18n: could not load translations for "${locale}"`, error);
+      return null;
+    },
+  );
+  loading.set(locale, pending);
+  return pending;
+}
+
+function warn(message: string) {
+  if (!DEV || warned.has(message)) return;
+  warned.add(message);
+  console.warn(message);
+}
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+function getPluralRules(locale: string, type: Intl.PluralRuleType) {
+  const id = `${locale}:${type}`;
+  let rules = pluralRules.get(id);
+  if (!rules)
+  {
+    rules = new Intl.PluralRules(locale, { type });
+    pluralRules.set(id, rules);
+  }
+  return rules;
+}
+
+/**
+ * Replaces the `{...}` arguments of a message, `hash` is what `#` stands for inside a plural branch.
+ */
+function format(message: string, values: TranslationValues, locale: string, hash?: string): string {
+  let result = "";
+  for (let i = 0; i < message.length; i++)
+  {
+    const char = message[i];
+    if (char === "#" && hash !== undefined)
+    {
+      result += hash;
+      continue;
+    }
+    if (char !== "{")
+    {
+      result += char;
+      continue;
+    }
+
+    const end = closingBrace(message, i);
+    if (end === -1) return result + message.slice(i);
+    result += formatArgument(message.slice(i + 1, end), values, locale);
+    i = end;
+  }
+  return result;
+}
+
+function formatArgument(argument: string, values: TranslationValues, locale: string): string {
+  const [name, type, options] = splitArgument(argument);
+  const value = values[name];
+
+  switch (type)
+  {
+    case "plural":
+    case "selectordinal":
+    {
+      const number = Number(value);
+      const branches = parseBranches(options);
+      const branch = branches.get(`=${number}`)
+        ?? branches.get(getPluralRules(locale, type === "plural" ? "cardinal" : "ordinal").select(number))
+        ?? branches.get("other")
+        ?? "";
+      return format(branch, values, locale, new Intl.NumberFormat(locale).format(number));
+    }
+    case "select":
+    {
+      const branches = parseBranches(options);
+      return format(branches.get(String(value)) ?? branches.get("other") ?? "", values, locale);
+    }
+    default:
+      if (value === undefined || value === null) return "";
+      if (typeof value === "number") return new Intl.NumberFormat(locale).format(value);
+      if (value instanceof Date) return new Intl.DateTimeFormat(locale).format(value);
+      return String(value);
+  }
+}
+
+/**
+ * Splits `name, type, options` at the first two top-level commas.
+ */
+function splitArgument(argument: string): [string, string, string] {
+  const first = argument.indexOf(",");
+  if (first === -1) return [argument.trim(), "", ""];
+  const second = argument.indexOf(",", first + 1);
+  if (second === -1) return [argument.slice(0, first).trim(), argument.slice(first + 1).trim(), ""];
+  return [argument.slice(0, first).trim(), argument.slice(first + 1, second).trim(), argument.slice(second + 1)];
+}
+
+/**
+ * Parses `key {message} key {message}` into a map.
+ */
+function parseBranches(options: string) {
+  const branches = new Map<string, string>();
+  let i = 0;
+  while (i < options.length)
+  {
+    const start = options.indexOf("{", i);
+    if (start === -1) break;
+    const end = closingBrace(options, start);
+    if (end === -1) break;
+    branches.set(options.slice(i, start).trim(), options.slice(start + 1, end));
+    i = end + 1;
+  }
+  return branches;
+}
+
+function closingBrace(text: string, start: number) {
+  let depth = 0;
+  for (let i = start; i < text.length; i++)
+  {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
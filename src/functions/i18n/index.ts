@@ -0,0 +1,12 @@
+export {
+  type Catalog,
+  type CatalogLoader,
+  type TranslationValues,
+  registerTranslations,
+  setLocale,
+  getLocale,
+  setDefaultLocale,
+  translate,
+  t,
+  formatMessage,
+} from "./i18n";
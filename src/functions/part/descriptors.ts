@@ -1,4 +1,7 @@
 import { PartDescriptor } from "./types";
+import type { TemplateRoot } from "@html/types";
+import { getMarkerToken, getStrings } from "@html/html";
+import { discardPrecompiled, getPrecompiled, resolvePath } from "@html/precompiled";
 
 /**
  * @fileoverview Extracts "part descriptors" from a DOM element tree.
@@ -6,54 +9,256 @@ import { PartDescriptor } from "./types";
  * @details
  * A part descriptor is metadata that describes a dynamic section
  * of the DOM (e.g. a value placeholder, a list placeholder, a dynamic
- * attribute, or an event binding). These are later turned into `Part`
+ * attribute, a boolean attribute, a property, a two-way or an event binding). These are later turned into `Part`
  * objects by the `partFactory` inside `TemplateInstance`.
  *
- * @param {Element} root - The root DOM element of the rendered template.
+ * Templates precompiled at build time list the paths of their parts, these are resolved
+ * instead of walking the tree.
+ *
+ * Templates compiled at runtime mark their values with a random token (`<!--marker-2f9c…-->`),
+ * only comments and attribute values holding that token are parts. The found marker comments are
+ * renamed to `marker` / `list-marker`, the token never reaches the rendered DOM.
+ *
+ * When `hydrateNodes` are given, the template is walked side by side with
+ * that existing (server-rendered) DOM and the descriptors point into it instead.
+ * Server output wraps each value in `<!--marker-start-->` … `<!--marker-->`,
+ * the nodes in between are handed to the part so it can adopt them.
+ *
+ * @param {TemplateRoot} root - The root element or fragment of the rendered template.
+ * @param {Node[]} [hydrateNodes] - Existing nodes matching the template, to hydrate.
  * @returns {PartDescriptor[]} An array of descriptors representing dynamic
  * parts of the template.
- * 
+ * @throws {Error} When hydrating and the existing DOM does not match the template.
+ *
  * @created 2025-08-11
  * @author Henry
  */
-export function getDescriptors(root: Element): PartDescriptor[] {
+export function getDescriptors(root: TemplateRoot, hydrateNodes?: Node[]): PartDescriptor[] {
+  const strings = getStrings(root);
+  const token = getMarkerToken(strings);
+  if (hydrateNodes) return getHydrationDescriptors(root, hydrateNodes, token);
+
+  const precompiled = getPrecompiledDescriptors(root, strings);
+  if (precompiled) return precompiled;
+
   const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_COMMENT);
   let node: Node | null = walker.currentNode;
   const descriptors: PartDescriptor[] = [];
 
-  while (node) 
+  while (node)
   {
-    if (node.nodeType === Node.COMMENT_NODE) 
+    if (node.nodeType === Node.COMMENT_NODE)
     {
-      if (node.nodeValue === 'list-marker') descriptors.push({ kind: 'list', marker: node as Comment });
-      else if (node.nodeValue === 'marker') descriptors.push({ kind: 'value', marker: node as Comment });
-    } 
-    else if (node.nodeType === Node.ELEMENT_NODE) 
-    {
-      const el = node as Element;
-      for (const attr of Array.from(el.attributes)) 
+      if (node.nodeValue === `list-${token}`)
+      {
+        node.nodeValue = "list-marker";
+        descriptors.push({ kind: 'list', marker: node as Comment });
+      }
+      else if (node.nodeValue === token)
       {
-        
-        if (/\<!--marker--\>/.test(attr.value)) 
-        {
-          const eventMatch = attr.name.match(/^(on|@)(?<name>.*)/);
-          if (eventMatch) 
-          {
-            el.removeAttribute(attr.name);
-            descriptors.push({ kind: 'event', element: el, name: eventMatch.groups?.name! });
-          }
-          else {
-            const strings = attr.value.split("<!--marker-->").filter(Boolean);
-            if (attr.name === "key")
-            {
-              el.removeAttribute("key");
-            }
-            descriptors.push({ kind: 'attr', element: el, name: attr.name, strings: strings.length > 0 ? strings : [''] });
-          }
-        }
+        node.nodeValue = "marker";
+        descriptors.push({ kind: 'value', marker: node as Comment });
       }
     }
+    else if (node.nodeType === Node.ELEMENT_NODE)
+    {
+      getAttributeDescriptors(node as Element, node as Element, descriptors, token);
+    }
     node = walker.nextNode();
   }
   return descriptors;
 }
+
+/**
+ * Resolves the part paths of a precompiled template.
+ * @returns The descriptors, or `null` when the template is not precompiled or its paths do not match
+ */
+function getPrecompiledDescriptors(root: TemplateRoot, strings?: TemplateStringsArray): PartDescriptor[] | null {
+  const paths = getPrecompiled(strings);
+  if (!paths) return null;
+
+  // resolve everything before changing attributes, so the walker can still take over
+  const nodes = paths.map(entry => resolvePath(root, entry.path));
+  const valid = paths.every((entry, index) => {
+    const node = nodes[index];
+    if ("value" in entry) return !!node && isComment(node, "marker", "list-marker");
+    return node?.nodeType === Node.ELEMENT_NODE && entry.attributes.every(name => (node as Element).hasAttribute(name));
+  });
+  if (!valid)
+  {
+    discardPrecompiled(strings!);
+    return null;
+  }
+
+  const descriptors: PartDescriptor[] = [];
+  paths.forEach((entry, index) => {
+    const node = nodes[index]!;
+    if ("value" in entry) 
+    {
+      descriptors.push({ kind: node.nodeValue === "list-marker" ? "list" : "value", marker: node as Comment });
+      return;
+    }
+    for (const name of entry.attributes)
+    {
+      const attr = (node as Element).getAttributeNode(name)!;
+      getAttributeDescriptor(attr, node as Element, node as Element, descriptors, "marker");
+    }
+  });
+  return descriptors;
+}
+
+/**
+ * Collects attribute, property, two-way and event descriptors of a template element.
+ * `target` is the element the parts bind to, the template element itself unless hydrating.
+ */
+function getAttributeDescriptors(el: Element, target: Element, descriptors: PartDescriptor[], token: string) {
+  for (const attr of Array.from(el.attributes))
+  {
+    if (!attr.value.includes(`<!--${token}-->`)) continue;
+    getAttributeDescriptor(attr, el, target, descriptors, token);
+  }
+}
+
+/**
+ * Adds the descriptor of one binding attribute, removing the attribute from the template element
+ * when it is not a plain attribute.
+ */
+function getAttributeDescriptor(attr: Attr, el: Element, target: Element, descriptors: PartDescriptor[], token: string) {
+  const hydrate = el !== target;
+
+  const eventMatch = attr.name.match(/^(on|@)(?<name>.*)/);
+  if (eventMatch)
+  {
+    if (!hydrate) el.removeAttribute(attr.name);
+    descriptors.push({ kind: 'event', element: target, name: eventMatch.groups?.name! });
+  }
+  else if (attr.name.startsWith("?"))
+  {
+    if (!hydrate) el.removeAttribute(attr.name);
+    descriptors.push({ kind: 'boolean', element: target, name: attr.name.slice(1), hydrate });
+  }
+  else if (attr.name.startsWith(":"))
+  {
+    // `:prop@event` names the change event to listen for
+    const [name, event] = attr.name.slice(1).split("@");
+    if (!hydrate) el.removeAttribute(attr.name);
+    descriptors.push({ kind: 'sync', element: target, name: propertyName(name), event: event || undefined });
+  }
+  else if (attr.name.startsWith("."))
+  {
+    if (!hydrate) el.removeAttribute(attr.name);
+    descriptors.push({ kind: 'property', element: target, name: propertyName(attr.name.slice(1)) });
+  }
+  else {
+    // the static strings around each value, always one more than the values
+    const strings = attr.value.split(`<!--${token}-->`);
+    if (attr.name === "key" && !hydrate)
+    {
+      el.removeAttribute("key");
+    }
+    descriptors.push({ kind: 'attr', element: target, name: attr.name, strings, hydrate });
+  }
+}
+
+/**
+ * Restores the property name of a `.prop` or `:prop` binding.
+ * `compile()` encodes upper case letters as `-lower` since the HTML parser lower-cases attribute names.
+ */
+function propertyName(name: string) {
+  return name.replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Walks the template and the server-rendered DOM in parallel and returns
+ * descriptors bound to the server-rendered nodes.
+ * The template is left untouched so it can still be used for a client render.
+ */
+function getHydrationDescriptors(root: TemplateRoot, hydrateNodes: Node[], token: string): PartDescriptor[] {
+  const descriptors: PartDescriptor[] = [];
+  const startMarkers: Comment[] = [];
+
+  // a fragment root is matched node by node, including its boundary comments
+  const source = root instanceof DocumentFragment ? Array.from(root.childNodes) : [root];
+  hydrateChildren(source, hydrateNodes, descriptors, startMarkers, token);
+
+  // the start markers are only needed to find where a value begins
+  startMarkers.forEach(marker => marker.remove());
+
+  return descriptors;
+}
+
+function hydrateNode(template: Node, existing: Node, descriptors: PartDescriptor[], startMarkers: Comment[], token: string) {
+  if (template.nodeType !== existing.nodeType || template.nodeName !== existing.nodeName)
+  {
+    throw new Error(`[hydration] expected <${template.nodeName.toLowerCase()}> but found <${existing.nodeName.toLowerCase()}>`);
+  }
+
+  if (template.nodeType !== Node.ELEMENT_NODE) return;
+
+  getAttributeDescriptors(template as Element, existing as Element, descriptors, token);
+  hydrateChildren(Array.from(template.childNodes), Array.from(existing.childNodes), descriptors, startMarkers, token);
+}
+
+function hydrateChildren(source: Node[], target: Node[], descriptors: PartDescriptor[], startMarkers: Comment[], token: string) {
+  let j = 0;
+
+  for (const child of source)
+  {
+    if (isBlank(child)) continue;
+    while (j < target.length && isBlank(target[j])) j++;
+
+    const node = target[j];
+    if (!node) throw new Error(`[hydration] missing node for ${child.nodeName.toLowerCase()}`);
+
+    if (isComment(child, token, `list-${token}`))
+    {
+      if (!isComment(node, "marker-start")) throw new Error("[hydration] expected a value start marker");
+
+      // the server always writes the plain marker names
+      const list = child.nodeValue !== token;
+      const expected = list ? "list-marker" : "marker";
+      const end = findEndMarker(target, j);
+      if (end < 0 || target[end].nodeValue !== expected)
+      {
+        throw new Error(`[hydration] expected a closing <!--${expected}-->`);
+      }
+
+      startMarkers.push(node as Comment);
+      descriptors.push({
+        kind: list ? "list" : "value",
+        marker: target[end] as Comment,
+        nodes: target.slice(j + 1, end),
+      });
+
+      j = end + 1;
+      continue;
+    }
+
+    hydrateNode(child, node, descriptors, startMarkers, token);
+    j++;
+  }
+}
+
+/**
+ * Finds the index of the end marker matching the start marker at `start`,
+ * skipping over nested start/end pairs (list items).
+ */
+export function findEndMarker(nodes: Node[], start: number) {
+  let depth = 0;
+  for (let i = start; i < nodes.length; i++)
+  {
+    if (isComment(nodes[i], "marker-start")) depth++;
+    else if (isComment(nodes[i], "marker", "list-marker", "item-marker")) depth--;
+
+    if (depth === 0) return i;
+  }
+  return -1;
+}
+
+export function isComment(node: Node, ...values: string[]) {
+  return node.nodeType === Node.COMMENT_NODE && values.includes(node.nodeValue ?? "");
+}
+
+function isBlank(node: Node) {
+  return node.nodeType === Node.TEXT_NODE && !/\S/.test(node.textContent || '');
+}
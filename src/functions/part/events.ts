@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Event names shared by the parts and the `@property` decorator.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+/**
+ * The default `notify` event name, kebab-case so templates can listen to it (`selectedIndex` → `selected-index-changed`).
+ */
+export function changedEventName(propertyKey: string) {
+  return `${propertyKey.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}-changed`;
+}
@@ -4,4 +4,19 @@ export {
 
 export { 
   partFactory 
-} from "./part-factory";
\ No newline at end of file
+} from "./part-factory";
+
+export { AttributePart } from "./parts/attribute-part";
+export { BooleanAttributePart } from "./parts/boolean-attribute-part";
+export { EventPart } from "./parts/event-part";
+export { ListPart, keyed } from "./parts/list-part";
+export { NestedPart } from "./parts/nested-part";
+export { PropertyPart } from "./parts/property-part";
+export { SyncPart, type SyncReference, sync } from "./parts/sync-part";
+export { ValuePart } from "./parts/value-part";
+
+export type {
+  Part,
+  PartDescriptor,
+  PartFactory,
+} from "./types";
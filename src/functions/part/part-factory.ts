@@ -3,6 +3,9 @@ import type { PartFactory } from './types';
 import { ValuePart } from './parts/value-part';
 import { AttributePart } from './parts/attribute-part';
 import { EventPart } from './parts/event-part';
+import { PropertyPart } from './parts/property-part';
+import { BooleanAttributePart } from './parts/boolean-attribute-part';
+import { SyncPart } from './parts/sync-part';
 import { ListPart } from './parts/list-part';
 import { NestedPart } from './parts/nested-part';
 
@@ -17,11 +20,14 @@ import { NestedPart } from './parts/nested-part';
  */
 export const partFactory: PartFactory = (desc, helpers) => {
   switch (desc.kind) {
-    case 'value': return new ValuePart(desc.marker, helpers);
-    case 'list': return new ListPart(desc.marker, helpers);
-    case 'nested': return new NestedPart(desc.marker, helpers);
-    case 'attr': return new AttributePart(desc.element, desc.name, desc.strings);
-    case 'event': return new EventPart(desc.element, desc.name);
+    case 'value': return new ValuePart(desc.marker, helpers, desc.nodes);
+    case 'list': return new ListPart(desc.marker, helpers, desc.nodes);
+    case 'nested': return new NestedPart(desc.marker, helpers, desc.nodes);
+    case 'attr': return new AttributePart(desc.element, desc.name, desc.strings, helpers.host, desc.hydrate);
+    case 'boolean': return new BooleanAttributePart(desc.element, desc.name, helpers.host, desc.hydrate);
+    case 'property': return new PropertyPart(desc.element, desc.name, helpers.host);
+    case 'sync': return new SyncPart(desc.element, desc.name, desc.event, helpers.host);
+    case 'event': return new EventPart(desc.element, desc.name, helpers.host);
     default: throw new Error(`Unknown part kind: ${(desc as any).kind}`);
   }
 };
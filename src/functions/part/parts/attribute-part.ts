@@ -1,4 +1,7 @@
 import type { Part } from "@functions/part/types";
+import { nothing } from "@html/constants";
+import { noChange } from "@functions/directive";
+import { DirectiveSlot } from "@functions/directive/slot";
 
 /**
  * @fileoverview Handles reactive binding for a single HTML attribute.
@@ -7,10 +10,16 @@ import type { Part } from "@functions/part/types";
  * - Updates or removes an attribute when its bound value changes.
  * - Treats `"key"` as a special case for list diffing: it is stored directly
  *   on the element (bypassing setAttribute) for synchronous access.
+ * - Each interpolated value may be a directive; `noChange` keeps that value as it was.
+ * - Async values (Promises, AsyncIterables, subscribables) fill in their position once they produce a value.
+ * - `nothing` anywhere in the attribute removes it, as does `null`/`undefined` when it is the whole value.
+ *   Inside a larger value `null`/`undefined` render as an empty string.
+ * - When hydrating, starts from the attribute value already present on the element,
+ *   so an unchanged server-rendered value is not written again.
  *
  * @example
  * // Used internally by the template engine:
- * const part = new AttributePart(el, "class", [""]);
+ * const part = new AttributePart(el, "class", ["", ""]);
  * part.apply(["btn-primary"]);
  *
  * @see Part
@@ -20,25 +29,59 @@ import type { Part } from "@functions/part/types";
  */
 export class AttributePart implements Part {
 
-  private value:string|null = null;
+  // undefined until the first apply, null while the attribute is removed
+  private value:string|null|undefined = undefined;
+  private committed: unknown[] = [];
+  private directives: DirectiveSlot[] = [];
 
   constructor(
-    private element:Element,
-    private name:string,
+    readonly element:Element,
+    readonly name:string,
     public strings: string[],
-  ) {}
+    private host: HTMLElement|null = null,
+    hydrate = false,
+  ) {
+    if (hydrate) this.value = element.getAttribute(name);
+  }
   
   /**
    * Updates the attribute with new values.
-   * @param values String fragments matching the `strings` template parts.
+   * @param values One value per gap between the `strings` template parts.
    */
-  apply(values: (string|null)[]) {
+  apply(values: unknown[]) {
+    const results = values.map((v, i) => this.slot(i).resolve(v));
+    if (results.every(result => result === noChange)) return;
+
+    this.commit(results.map((result, i) => result === noChange ? this.committed[i] : result));
+  }
+
+  /** The directive slot of the value at `index`, values it commits later replace just that position. */
+  private slot(index: number) {
+    return this.directives[index] ??= new DirectiveSlot(this, this.host, value => {
+      const resolved = this.committed.slice();
+      resolved[index] = value;
+      this.commit(resolved);
+    }, true);
+  }
+
+  private commit(resolved: unknown[]) {
+    this.committed = resolved;
+
+    const whole = resolved.length === 1 && this.strings[0] === "" && !this.strings[1];
+    if (resolved.includes(nothing) || (whole && resolved[0] == null))
+    {
+      if (this.value === null) return;
+      this.value = null;
+      return void this.clear();
+    }
+
     let value = "";
-    for (let i=0; i<values.length; i++) 
+    for (let i=0; i<resolved.length; i++) 
     {
       value += this.strings[i];
-      value += values[i];
+      value += resolved[i] ?? "";
     }
+    value += this.strings[resolved.length] ?? "";
 
     if (value === this.value) return;
     this.value = value;
@@ -56,7 +99,12 @@ export class AttributePart implements Part {
       this.element.removeAttribute(this.name);
   }
 
+  setConnected(connected: boolean) {
+    this.directives.forEach(slot => slot.setConnected(connected));
+  }
+
   remove() {
+    this.directives.forEach(slot => slot.clear());
     this.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import type { Part } from "@functions/part/types";
+import { nothing } from "@html/constants";
+import { noChange } from "@functions/directive";
+import { DirectiveSlot } from "@functions/directive/slot";
+
+/**
+ * @fileoverview Toggles the presence of an attribute (`?disabled=${flag}`).
+ *
+ * @details
+ * - A truthy value adds the attribute (with an empty value), a falsy value or `nothing` removes it.
+ * - Skips the DOM when the presence does not change.
+ * - When hydrating, starts from whether the attribute is already present.
+ *
+ * @example
+ * // Used internally by the template engine:
+ * const part = new BooleanAttributePart(input, "disabled");
+ * part.apply(true);  // <input disabled>
+ * part.apply(false); // <input>
+ *
+ * @see Part
+ *
+ * @author Henry Pap
+ * @created 2025-10-19
+ */
+export class BooleanAttributePart implements Part {
+
+  private value: boolean|null = null;
+  private directive: DirectiveSlot;
+
+  constructor(
+    readonly element: Element,
+    readonly name: string,
+    host: HTMLElement|null = null,
+    hydrate = false,
+  ) {
+    this.directive = new DirectiveSlot(this, host, value => this.commit(value));
+    if (hydrate) this.value = element.hasAttribute(name);
+  }
+
+  /**
+   * Adds or removes the attribute.
+   * @param newValue Interpreted as a boolean, `nothing` counts as false.
+   */
+  apply(newValue: unknown) {
+    const resolved = this.directive.resolve(newValue);
+    if (resolved === noChange) return;
+    this.commit(resolved);
+  }
+
+  private commit(resolved: unknown) {
+    const value = resolved !== nothing && !!resolved;
+    if (value === this.value) return;
+    this.value = value;
+
+    this.element.toggleAttribute(this.name, value);
+  }
+
+  clear() {
+    this.value = false;
+    this.element.removeAttribute(this.name);
+  }
+
+  setConnected(connected: boolean) {
+    this.directive.setConnected(connected);
+  }
+
+  remove() {
+    this.directive.clear();
+    this.clear();
+  }
+}
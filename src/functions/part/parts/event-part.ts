@@ -1,4 +1,7 @@
 import type { Part } from "@functions/part/types";
+import { nothing } from "@html/constants";
+import { noChange } from "@functions/directive";
+import { DirectiveSlot } from "@functions/directive/slot";
 
 /**
  * @fileoverview Manages binding and unbinding of DOM event listeners.
@@ -6,6 +9,7 @@ import type { Part } from "@functions/part/types";
  * @details
  * - Ensures old listeners are removed before new ones are attached.
  * - Supports both function listeners and `EventListenerObject` handlers.
+ * - The listener may come from a directive.
  *
  * @example
  * // Used internally by the template engine:
@@ -20,19 +24,25 @@ import type { Part } from "@functions/part/types";
 export class EventPart implements Part {
 
   private value: EventListenerOrEventListenerObject|null = null;
+  private directive: DirectiveSlot;
 
   constructor(
-    private element:Element,
-    private name:string,
-  ) {}
+    readonly element:Element,
+    readonly name:string,
+    host: HTMLElement|null = null,
+  ) {
+    this.directive = new DirectiveSlot(this, host);
+  }
 
   /**
    * Attaches a new listener and removes any previously bound one.
-   * @param value The event listener or `EventListenerObject`, or `null` to unbind.
+   * @param newValue The event listener or `EventListenerObject`, or `null` / `nothing` to unbind.
    */
-  apply( 
-    value: EventListenerOrEventListenerObject | null
-  ) {
+  apply(newValue: unknown) {
+    let value = this.directive.resolve(newValue) as EventListenerOrEventListenerObject | null | typeof noChange | typeof nothing;
+    if (value === noChange) return;
+    if (value === nothing) value = null;
+
     if (this.value) {
       this.element.removeEventListener(this.name as keyof ElementEventMap, this.value);
     }
@@ -48,7 +58,12 @@ export class EventPart implements Part {
     if (this.value) this.element.removeEventListener(this.name as keyof ElementEventMap, this.value);
   }
 
+  setConnected(connected: boolean) {
+    this.directive.setConnected(connected);
+  }
+
   remove() {
+    this.directive.clear();
     this.clear();
   }
 }
\ No newline at end of file
@@ -1,12 +1,17 @@
 import { Part, PartHelpers } from "@functions/part/types";
+import { findEndMarker, isComment } from "@functions/part/descriptors";
 
 /**
  * @fileoverview Manages a dynamic list of items in the DOM.
  *
  * @details
- * - Supports keyed updates to efficiently reorder items without full re-render.
+ * - Supports keyed updates that move existing item DOM instead of re-rendering it.
  * - Creates, reuses, and removes item parts based on stable keys.
- * - Keys default to array index if no `.key` property is present.
+ * - Keys come from {@link keyed} (the `repeat` directive), else a `.key` property, else the array index.
+ * - Reorders with the minimal number of moves: items on the longest increasing
+ *   subsequence of their old positions stay put, only the others are moved.
+ * - Each item lives between a `<!--marker-start-->` and an `<!--item-marker-->` comment.
+ * - When hydrating, each server-rendered item becomes an item part that adopts its nodes.
  *
  * @see ValuePart
  * @see NestedPart
@@ -14,71 +19,176 @@ import { Part, PartHelpers } from "@functions/part/types";
  * @created 2025-08-12
  * @author Henry
  */
+
+type Item = {
+  key: unknown;
+  part: Part;
+  start: Comment;
+  end: Comment;
+}
+
+// `moveBefore` is not in the DOM typings yet
+type MoveBeforeParent = ParentNode & { moveBefore(node: Node, child: Node | null): void };
+
+// Keys registered for a values array, see `keyed`
+const listKeys = new WeakMap<unknown[], unknown[]>();
+
+/**
+ * Registers the keys for a list of values, `keys[i]` identifies `values[i]`.
+ * @returns The same values array, ready to bind in a template.
+ */
+export function keyed<T extends unknown[]>(values: T, keys: unknown[]): T {
+  listKeys.set(values, keys);
+  return values;
+}
+
 export class ListPart implements Part {
-  private keyMap = new Map<any, Part>();
+  private items: Item[] = [];
 
-  constructor(private marker: Comment, private helpers: PartHelpers) {}
+  constructor(
+    readonly marker: Comment, 
+    private helpers: PartHelpers,
+    private hydrateNodes?: Node[],
+  ) {}
 
   /**
    * Updates the list of items.
    * @param values An array of values; each can have a `.key` for stable identity.
    */
   apply(values: any[]) {
+    if (this.hydrateNodes) return void this.hydrate(values);
+
     if (!Array.isArray(values)) {
       this.clear();
       return;
     }
 
-    const newKeyMap = new Map<any, Part>();
-    let beforeNode: Node = this.marker;
-
-    // Build new list in order
-    values.forEach((value, index) => {
-      const key = this.getKey(value, index);
-
-      let part = this.keyMap.get(key);
-      if (!part) part = this.createItemPart(beforeNode);
+    const keys = values.map((_value, index) => this.getKey(values, index));
 
-      part.apply(value);
-      if (key != null) newKeyMap.set(key, part);
+    // old position of the item each new value reuses, -1 for new items
+    const oldIndex = new Map<unknown, number>();
+    this.items.forEach((item, index) => {
+      if (!oldIndex.has(item.key)) oldIndex.set(item.key, index);
+    });
+    const sources = keys.map(key => {
+      const index = oldIndex.get(key);
+      if (index === undefined) return -1;
+      oldIndex.delete(key); // duplicate keys get a new item
+      return index;
+    });
 
-      // Move insertion point forward
-      beforeNode = this.getEndNode(part) ?? beforeNode;
+    // Remove any items not reused
+    const reused = new Set(sources);
+    this.items.forEach((item, index) => {
+      if (!reused.has(index)) this.removeItem(item);
     });
 
-    // Remove any parts not reused
-    this.keyMap.forEach((part, key) => {
-      if (!newKeyMap.has(key)) {
-        part.remove();
+    const focused = activeElement(this.marker);
+    const stable = longestIncreasingSubsequence(sources);
+
+    // Position items back to front, each one goes before its successor
+    const items: Item[] = new Array(values.length);
+    let before: Node = this.marker;
+    for (let i = values.length - 1; i >= 0; i--) {
+      let item: Item;
+      if (sources[i] < 0) item = this.createItem(keys[i], before);
+      else {
+        item = this.items[sources[i]];
+        if (!stable.has(i)) this.moveItem(item, before);
       }
+      items[i] = item;
+      before = item.start;
+    }
+    this.items = items;
+
+    // moving a node blurs it, give focus back
+    if (focused && focused.isConnected && activeElement(this.marker) !== focused) {
+      focused.focus({ preventScroll: true });
+    }
+
+    items.forEach((item, index) => item.part.apply(values[index]));
+  }
+
+  /**
+   * Splits the server-rendered nodes into item parts and keys them like `apply` would.
+   * @throws {Error} If the number of rendered items does not match the values.
+   */
+  private hydrate(values: any[]) {
+    const nodes = this.hydrateNodes!;
+    this.hydrateNodes = undefined;
+
+    const items: Item[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+      if (!isComment(nodes[i], "marker-start")) continue;
+
+      const end = findEndMarker(nodes, i);
+      if (end < 0) throw new Error("[hydration] list item is missing its end marker");
+
+      items.push({
+        key: null,
+        part: this.helpers.createPart({ kind: "value", marker: nodes[end] as Comment, nodes: nodes.slice(i + 1, end) }),
+        start: nodes[i] as Comment,
+        end: nodes[end] as Comment,
+      });
+      i = end;
+    }
+
+    if (!Array.isArray(values) || items.length !== values.length) {
+      throw new Error(`[hydration] expected ${items.length} list items`);
+    }
+
+    items.forEach((item, index) => {
+      item.key = this.getKey(values, index);
+      item.part.apply(values[index]);
     });
+    this.items = items;
+  }
+
+  /** Creates an empty item with its boundary markers before the given node. */
+  private createItem(key: unknown, before: Node): Item {
+    const start = document.createComment("marker-start");
+    const end = document.createComment("item-marker");
+    this.marker.parentNode?.insertBefore(start, before);
+    this.marker.parentNode?.insertBefore(end, before);
+    return { key, start, end, part: this.helpers.createPart({ kind: "value", marker: end }) };
+  }
 
-    this.keyMap = newKeyMap;
+  /** Moves all nodes of an item, markers included, before the given node. */
+  private moveItem(item: Item, before: Node) {
+    const parent = this.marker.parentNode;
+    if (!parent) return;
+
+    let node: Node | null = item.start;
+    while (node) {
+      const next: Node | null = node === item.end ? null : node.nextSibling;
+      // `moveBefore` keeps focus, animations and iframes alive where supported
+      if ("moveBefore" in parent && parent.isConnected) (parent as MoveBeforeParent).moveBefore(node, before);
+      else parent.insertBefore(node, before);
+      node = next;
+    }
   }
 
-  /** Creates a new `ValuePart` before the given node. */
-  private createItemPart(beforeNode?: Node): Part {
-    const marker = document.createComment("item-marker");
-    this.marker.parentNode?.insertBefore(marker, beforeNode || this.marker);
-    return this.helpers.createPart({ kind: "value", marker });
+  private removeItem(item: Item) {
+    item.part.remove();
+    item.start.parentNode?.removeChild(item.start);
   }
 
   /** Gets a stable key for a value, falling back to the index. */
-  private getKey(value: any, index: number) {
-    if (value?.key) return value.key;
+  private getKey(values: any[], index: number) {
+    const keys = listKeys.get(values);
+    if (keys) return keys[index];
+    if (values[index]?.key) return values[index].key;
     return index;
   }
 
-  /** Tries to find the DOM node immediately after a part for insertion tracking. */
-  private getEndNode(part: Part): Node | null {
-    // This assumes parts always have a `marker` property or similar.
-    return (part as any).marker ?? null;
+  setConnected(connected: boolean) {
+    this.items.forEach(item => item.part.setConnected?.(connected));
   }
 
   /** Removes all list items. */
   clear() {
-    this.keyMap.forEach((part) => part.remove());
-    this.keyMap.clear();
+    this.items.forEach(item => this.removeItem(item));
+    this.items = [];
   }
 
   /** Removes all list items and the marker itself. */
@@ -87,3 +197,41 @@ export class ListPart implements Part {
     this.marker.parentNode?.removeChild(this.marker);
   }
 }
+
+/**
+ * Finds the positions forming the longest strictly increasing run of old indices,
+ * ignoring new items (-1). Those items keep their relative order and need no move.
+ */
+function longestIncreasingSubsequence(sources: number[]): Set<number> {
+  const tails: number[] = []; // positions, by subsequence length - 1
+  const previous: number[] = new Array(sources.length).fill(-1);
+
+  sources.forEach((source, i) => {
+    if (source < 0) return;
+
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sources[tails[mid]] < source) low = mid + 1;
+      else high = mid;
+    }
+
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+
+  const result = new Set<number>();
+  let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (i >= 0) {
+    result.add(i);
+    i = previous[i];
+  }
+  return result;
+}
+
+/** The focused element in the document or shadow root containing `node`. */
+function activeElement(node: Node): HTMLElement | null {
+  const root = node.getRootNode() as Document | ShadowRoot;
+  return (root.activeElement as HTMLElement | null) ?? null;
+}
@@ -1,13 +1,15 @@
 import type { Part, PartHelpers, ITemplateInstance } from "@functions/part/types";
-import { getValues } from "@html/html";
+import { getStrings, getValues, isTemplateRoot } from "@html/html";
 
 /**
  * @fileoverview Manages a nested template instance at a marker position.
  *
  * @details
- * - Accepts only elements marked with `__isTemplateRoot`.
- * - Creates a child template instance once and reuses it on updates.
+ * - Accepts only `html` results (elements or bounded fragments marked with `__isTemplateRoot`).
+ * - Creates a child template instance once and reuses it on updates of the same template,
+ *   a root from another template (e.g. the other branch of a conditional) replaces the instance.
  * - Updates child instance values without re-rendering the parent.
+ * - When hydrating, binds the child instance to the server-rendered nodes instead.
  *
  * @see Part
  * @see PartHelpers
@@ -19,25 +21,38 @@ import { getValues } from "@html/html";
  */
 export class NestedPart implements Part {
   private instance: ITemplateInstance | null = null;
+  private strings?: TemplateStringsArray;
 
   constructor(
-    private marker: Comment,
-    private helpers: PartHelpers
+    readonly marker: Comment,
+    private helpers: PartHelpers,
+    private hydrateNodes?: Node[],
   ) {}
 
   /**
    * Creates or updates a nested template instance.
-   * @param newValue is expected to be an Element with `__isTemplateRoot` - otherwise its cleared
+   * @param newValue is expected to be an `html` result - otherwise its cleared
    */
   apply(newValue: any) {
-    if (!(newValue instanceof Element) || !(newValue as any).__isTemplateRoot) {
+    if (!isTemplateRoot(newValue)) {
       this.clear();
       return;
     }
 
     const values = getValues(newValue);
+    const strings = getStrings(newValue);
 
-    if (!this.instance) {
+    // another template: the current nodes cannot be patched into it
+    if (this.instance && strings !== this.strings) this.clear();
+    this.strings = strings;
+
+    if (!this.instance && this.hydrateNodes) {
+      const nodes = this.hydrateNodes;
+      this.hydrateNodes = undefined;
+
+      this.instance = this.helpers.createTemplateInstance(newValue, nodes);
+      if (values) this.instance.update(values);
+    } else if (!this.instance) {
       this.instance = this.helpers.createTemplateInstance(newValue);
 
       // Insert into DOM before the marker
@@ -58,6 +73,10 @@ export class NestedPart implements Part {
     }
   }
   
+  setConnected(connected: boolean) {
+    this.instance?.setConnected(connected);
+  }
+
   remove() {
     this.clear();
     this.marker.parentNode?.removeChild(this.marker);
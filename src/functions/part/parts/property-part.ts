@@ -0,0 +1,71 @@
+import type { Part } from "@functions/part/types";
+import { nothing } from "@html/constants";
+import { noChange } from "@functions/directive";
+import { DirectiveSlot } from "@functions/directive/slot";
+
+/**
+ * @fileoverview Assigns a bound value directly to an element property (`.prop=${value}`).
+ *
+ * @details
+ * - Passes objects, arrays, functions and async values (Promises, observables) as-is, no attribute stringification.
+ * - Skips the assignment when the value is identical to the last one assigned.
+ * - Property names keep their case: `.selectedIndex=${i}` sets `element.selectedIndex`.
+ *
+ * @example
+ * // Used internally by the template engine:
+ * const part = new PropertyPart(list, "items");
+ * part.apply([{ id: 1 }, { id: 2 }]);
+ *
+ * @see Part
+ *
+ * @author Henry Pap
+ * @created 2025-10-19
+ */
+export class PropertyPart implements Part {
+
+  private value: unknown = undefined;
+  private committed = false;
+  private directive: DirectiveSlot;
+
+  constructor(
+    readonly element: Element,
+    readonly name: string,
+    host: HTMLElement|null = null,
+  ) {
+    this.directive = new DirectiveSlot(this, host, value => this.commit(value));
+  }
+
+  /**
+   * Assigns the value to the element property.
+   * @param newValue Any value, or a directive. `nothing` assigns `undefined`, wrap async values in `until` to assign their result.
+   */
+  apply(newValue: unknown) {
+    const value = this.directive.resolve(newValue);
+    if (value === noChange) return;
+    this.commit(value);
+  }
+
+  private commit(value: unknown) {
+    if (value === nothing) value = undefined;
+    if (this.committed && Object.is(value, this.value)) return;
+
+    this.value = value;
+    this.committed = true;
+    (this.element as any)[this.name] = value;
+  }
+
+  /** Forgets the last value so the next apply assigns again, the property itself is left as is. */
+  clear() {
+    this.value = undefined;
+    this.committed = false;
+  }
+
+  setConnected(connected: boolean) {
+    this.directive.setConnected(connected);
+  }
+
+  remove() {
+    this.directive.clear();
+    this.clear();
+  }
+}
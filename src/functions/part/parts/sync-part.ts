@@ -0,0 +1,148 @@
+import type { Part } from "@functions/part/types";
+import { nothing } from "@html/constants";
+import { isSignal, Signal } from "@functions/signal/signal";
+import { changedEventName } from "@functions/part/events";
+
+/**
+ * @fileoverview Binds an element property in both directions (`:prop=${reference}`).
+ *
+ * @details
+ * - Assigns the referenced value to the element property, like `.prop=${value}`.
+ * - Listens for the element's change event and writes the property back into the reference.
+ * - The event defaults to `${prop}-changed` in kebab-case (see the `notify` property setting),
+ *   `:prop@event=${reference}` picks another one, e.g. `:value@input` for native inputs.
+ * - The reference is a `Signal` (kept in sync while the host is connected)
+ *   or `sync(target, key)`, which reads and writes `target[key]`.
+ *
+ * @example
+ * // Used internally by the template engine:
+ * const part = new SyncPart(input, "value", "input");
+ * part.apply(sync(form, "name"));
+ *
+ * @see Part
+ * @see PropertyPart
+ *
+ * @author Henry Pap
+ * @created 2025-10-19
+ */
+
+export type SyncReference<T = unknown> = {
+  __sync: true;
+  get(): T;
+  set(value: T): void;
+}
+
+/**
+ * Creates a two-way binding reference to `target[key]`.
+ * @example html`<x-input :value=${sync(this, "name")}></x-input>`
+ */
+export function sync<T extends object, K extends keyof T>(target: T, key: K): SyncReference<T[K]> {
+  return {
+    __sync: true,
+    get: () => target[key],
+    set: value => { target[key] = value; },
+  };
+}
+
+function isSyncReference(value: unknown): value is SyncReference {
+  return !!value && typeof value === "object" && (value as any).__sync === true;
+}
+
+export class SyncPart implements Part {
+
+  private reference: SyncReference | null = null;
+  private signal: Signal<unknown> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private value: unknown = undefined;
+  private committed = false;
+  private connected: boolean;
+
+  constructor(
+    readonly element: Element,
+    readonly name: string,
+    readonly event = changedEventName(name),
+    host: HTMLElement|null = null,
+  ) {
+    this.connected = host?.isConnected ?? true;
+  }
+
+  /**
+   * Binds the element property to the reference.
+   * @param newValue A `Signal` or `sync(target, key)`, `null` / `nothing` unbind.
+   * @throws {TypeError} For any other value, it could not be written back.
+   */
+  apply(newValue: unknown) {
+    if (newValue == null || newValue === nothing) return void this.clear();
+
+    if (isSignal(newValue)) {
+      if (newValue === this.signal) return;
+      this.clear();
+      const signal = newValue;
+      this.signal = signal;
+      this.bind({ __sync: true, get: () => signal.peek(), set: value => signal.value = value });
+      if (this.connected) this.subscribe();
+      else this.commit(signal.peek());
+      return;
+    }
+
+    if (!isSyncReference(newValue)) {
+      throw new TypeError(`[error] core: ":${this.name}" expects a signal or sync(target, key)`);
+    }
+
+    if (this.signal) this.clear();
+    this.bind(newValue);
+    this.commit(newValue.get());
+  }
+
+  private bind(reference: SyncReference) {
+    if (!this.reference) this.element.addEventListener(this.event, this.writeBack);
+    this.reference = reference;
+  }
+
+  private subscribe() {
+    this.unsubscribe = this.signal?.subscribe(value => this.commit(value)) ?? null;
+  }
+
+  private commit(value: unknown) {
+    if (this.committed && Object.is(value, this.value)) return;
+
+    this.value = value;
+    this.committed = true;
+    (this.element as any)[this.name] = value;
+  }
+
+  private writeBack = () => {
+    if (!this.reference) return;
+    const value = (this.element as any)[this.name];
+    this.value = value;
+    this.committed = true;
+    this.reference.set(value);
+  }
+
+  /** Stops syncing, the property itself is left as is. */
+  clear() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.reference) this.element.removeEventListener(this.event, this.writeBack);
+    this.reference = null;
+    this.signal = null;
+    this.value = undefined;
+    this.committed = false;
+  }
+
+  setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+
+    if (!this.signal) return;
+    if (connected) this.subscribe();
+    else {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+    }
+  }
+
+  remove() {
+    this.clear();
+  }
+}
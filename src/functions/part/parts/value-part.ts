@@ -1,4 +1,9 @@
 import type { Part, PartHelpers } from "@functions/part/types";
+import { nothing } from "@html/constants";
+import { isTemplateRoot } from "@html/html";
+import { isUnsafeHTML, parseUnsafeHTML, UnsafeHTML } from "@html/unsafe-html";
+import { noChange } from "@functions/directive";
+import { DirectiveSlot } from "@functions/directive/slot";
 
 /**
  * @fileoverview Handles dynamic values in a template.
@@ -7,9 +12,14 @@ import type { Part, PartHelpers } from "@functions/part/types";
  * - Replaces a marker comment with strings, DOM nodes, or nested templates.
  * - Avoids full re-renders by only updating the changed value.
  * - Supports:
- *   1. Nested template roots (`__isTemplateRoot`)
+ *   1. Nested template roots (`__isTemplateRoot` elements or fragments)
  *   2. Direct DOM `Node` insertion
- *   3. Primitive-to-string conversion
+ *   3. Primitive-to-string conversion, strings are always inserted as text
+ *   4. Arrays, rendered by a `ListPart` sharing the marker (e.g. from `repeat`)
+ *   5. Raw markup explicitly wrapped with `unsafeHTML`, re-parsed only when the markup changes
+ * - Can adopt server-rendered nodes (hydration) instead of creating new ones.
+ * - Resolves directives first; `noChange` leaves the slot untouched.
+ * - Promises, AsyncIterables and subscribables render once they produce a value (see `until`).
  *
  * @example
  * const part = new ValuePart(marker, helpers);
@@ -25,24 +35,45 @@ import type { Part, PartHelpers } from "@functions/part/types";
 export class ValuePart implements Part {
   private value: any = null;
   private node: Node | null = null;
+  // nodes parsed from an `unsafeHTML` value
+  private htmlNodes: Node[] = [];
   private nestedInstance: Part | null = null;
+  private list: Part | null = null;
+  private directive: DirectiveSlot;
 
   constructor(
-    private marker: Comment,
-    private helpers: PartHelpers
-  ) {}
+    readonly marker: Comment,
+    private helpers: PartHelpers,
+    private hydrateNodes?: Node[],
+  ) {
+    this.directive = new DirectiveSlot(this, helpers.host, value => this.commit(value), true);
+  }
 
   /**
    * Inserts or updates the value before the marker.
-   * @param newValue Strings, Nodes, or nested template roots.
+   * @param newValue Strings, Nodes, nested template roots, arrays, async values or directives.
    */
   apply(newValue: any) {
+    newValue = this.directive.resolve(newValue);
+    if (newValue === noChange) return;
+    this.commit(newValue);
+  }
+
+  /**
+   * Writes an already resolved value, also used for values a directive commits later.
+   */
+  private commit(newValue: any) {
+    if (newValue === nothing) newValue = null;
+
+    if (this.hydrateNodes) return void this.hydrate(newValue);
     if (!newValue && newValue != 0) return void this.clear();
+    if (Array.isArray(newValue)) return void this.applyList(newValue);
+    if (isUnsafeHTML(newValue)) return void this.applyHTML(newValue);
     if (newValue === this.value) return;
     this.value = newValue;
 
-    // --- 1. Handle nested template (pure Element from html())
-    if (newValue instanceof Element && (newValue as any).__isTemplateRoot) {
+    // --- 1. Handle nested template (Element or fragment from html())
+    if (isTemplateRoot(newValue)) {
       if (this.nestedInstance == null) {
         this.clear();
         this.nestedInstance = this.helpers.createPart({
@@ -74,6 +105,75 @@ export class ValuePart implements Part {
     this.insert(this.node);
   }
 
+  /**
+   * Renders an array through a `ListPart` placed at the same marker.
+   * Not compared against the previous value, the same array may have been mutated.
+   */
+  private applyList(values: unknown[]) {
+    if (this.list == null) {
+      this.clear();
+      this.list = this.helpers.createPart({ kind: "list", marker: this.marker });
+    }
+    this.list.apply(values);
+  }
+
+  /**
+   * Inserts the nodes of an `unsafeHTML` value, kept while the markup stays the same.
+   */
+  private applyHTML(value: UnsafeHTML) {
+    if (isUnsafeHTML(this.value) && String(this.value.markup) === String(value.markup)) return;
+
+    this.clear();
+    this.value = value;
+    this.htmlNodes = parseUnsafeHTML(value);
+    this.htmlNodes.forEach(node => this.insert(node));
+  }
+
+  /**
+   * Adopts the server-rendered nodes found in front of the marker.
+   * Text and nested templates are reused, anything else is replaced by a regular apply.
+   * @throws {Error} If a text value meets nodes it cannot adopt.
+   */
+  private hydrate(newValue: any) {
+    const nodes = this.hydrateNodes!;
+    this.hydrateNodes = undefined;
+
+    if (isTemplateRoot(newValue)) {
+      this.value = newValue;
+      this.nestedInstance = this.helpers.createPart({ kind: "nested", marker: this.marker, nodes });
+      this.nestedInstance.apply(newValue);
+      return;
+    }
+
+    if (Array.isArray(newValue)) {
+      this.list = this.helpers.createPart({ kind: "list", marker: this.marker, nodes });
+      this.list.apply(newValue);
+      return;
+    }
+
+    // the server wrote the markup as-is
+    if (isUnsafeHTML(newValue)) {
+      this.value = newValue;
+      this.htmlNodes = nodes;
+      return;
+    }
+
+    const isText = !(newValue instanceof Node) && !(!newValue && newValue != 0);
+    if (isText) {
+      if (nodes.length === 1 && nodes[0] instanceof Text) {
+        const str = String(newValue);
+        this.value = newValue;
+        this.node = nodes[0];
+        if (nodes[0].data !== str) nodes[0].data = str;
+        return;
+      }
+      if (nodes.length > 0) throw new Error(`[hydration] expected text for "${newValue}"`);
+    }
+
+    nodes.forEach(node => node.parentNode?.removeChild(node));
+    this.commit(newValue);
+  }
+
   private insert(node: Node) {
     this.marker.parentNode?.insertBefore(node, this.marker);
   }
@@ -86,16 +186,32 @@ export class ValuePart implements Part {
     }
     this.node = null;
 
+    this.htmlNodes.forEach(node => node.parentNode?.removeChild(node));
+    this.htmlNodes = [];
+
     // Clear nested instance if present
     if (this.nestedInstance) {
       this.nestedInstance.clear();
       this.nestedInstance = null;
     }
 
+    // Clear list if present
+    if (this.list) {
+      this.list.clear();
+      this.list = null;
+    }
+
     this.value = null;
   }
 
+  setConnected(connected: boolean) {
+    this.directive.setConnected(connected);
+    this.nestedInstance?.setConnected?.(connected);
+    this.list?.setConnected?.(connected);
+  }
+
   remove() {
+    this.directive.clear();
     this.clear();
     this.nestedInstance?.remove();
     this.marker.parentNode?.removeChild(this.marker);
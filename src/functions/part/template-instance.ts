@@ -1,9 +1,14 @@
-import { getDescriptors } from '@functions/part/descriptors';
-import type { Part, PartFactory, PartHelpers, ITemplateInstance, PartDescriptor } from '@functions/part/types';
+import { getDescriptors, isComment } from '@functions/part/descriptors';
+import type { Part, PartFactory, PartHelpers, ITemplateInstance, PartDescriptor, TemplateInstanceOptions } from '@functions/part/types';
+import type { TemplateRoot } from '@html/types';
+import { getStrings } from '@html/html';
+import { validateTemplate } from '@html/validate';
 
 type Meta = {
   descriptor: PartDescriptor;
   part: Part;
+  /** index of the (first) value this part consumes */
+  valueIndex: number;
 }
 
 /**
@@ -11,12 +16,18 @@ type Meta = {
  * Represents a single rendered template instance: a DOM tree plus its dynamic parts.
  *
  * @details
- * - Created from a root element and a `PartFactory`.
+ * - Created from a root element (or bounded fragment) and a `PartFactory`.
+ * - A fragment root is tracked by its `<!--template-start-->` / `<!--template-end-->`
+ *   comments, since the fragment itself is emptied once inserted.
  * - Manages an ordered collection of `Part`s (attributes, events, nodes, etc.).
  * - Updates only the changed parts without re-rendering the entire template.
  * - Optimizes update order:
- *   1. Attributes/events first (ensures DOM sync before children update).
+ *   1. Attributes/properties/two-way bindings/events first (ensures DOM sync before children update).
  *   2. All other parts afterward.
+ * - When given `hydrateNodes`, adopts that existing (server-rendered) DOM
+ *   instead of the template clone; parts reuse the nodes they find there.
+ * - Forwards the host's connected state to its parts (and so to directives).
+ * - In development, checks the template once for values it cannot bind (see `validateTemplate`).
  *
  * @example
  * const instance = new TemplateInstance(rootElement, partFactory);
@@ -36,62 +47,112 @@ type Meta = {
 export class TemplateInstance implements ITemplateInstance {
   private meta: Meta[];
   private indexList: number[];
+  // boundaries of a fragment root
+  private start: Node | null = null;
+  private end: Node | null = null;
 
   constructor(
-    private root: Element,
+    private root: TemplateRoot,
     private partFactory: PartFactory,
+    options: Partial<TemplateInstanceOptions> = {},
   ) {
-    const descriptors = getDescriptors(root);
+    const { hydrateNodes, host } = options;
+    const descriptors = getDescriptors(root, hydrateNodes);
+
+    const nodes = hydrateNodes ?? Array.from(root.childNodes);
+    if (root instanceof DocumentFragment)
+    {
+      // the outermost boundaries, nested fragments sit in between
+      this.start = nodes.find(node => isComment(node, "template-start")) ?? null;
+      this.end = nodes.slice().reverse().find(node => isComment(node, "template-end")) ?? null;
+    }
+    else if (hydrateNodes)
+    {
+      this.root = hydrateNodes.find(node => node.nodeType === Node.ELEMENT_NODE) as Element;
+    }
 
     const helpers: PartHelpers = {
+      host: host ?? null,
       createPart: desc => this.partFactory(desc, helpers),
-      createTemplateInstance: (el) => new TemplateInstance(el, this.partFactory),
+      createTemplateInstance: (root, hydrate) => new TemplateInstance(root, this.partFactory, { host, hydrateNodes: hydrate }),
     };
 
     let attributes:number[] = [];
     let rest:number[] = [];
+    let valueIndex = 0;
 
     this.meta = descriptors.map((descriptor, index) => {
-      if (["attr", "event"].includes(descriptor.kind))
+      if (["attr", "boolean", "property", "sync", "event"].includes(descriptor.kind))
         attributes.push(index);
       else 
         rest.push(index);
 
-      return {
+      const meta = {
         part: this.partFactory(descriptor, helpers),
         descriptor,
-      }
+        valueIndex,
+      };
+
+      // an attribute can interpolate several values ("a ${x} b ${y}")
+      valueIndex += descriptor.kind === "attr" ? descriptor.strings.length - 1 : 1;
+      return meta;
     });
 
     this.indexList = [...attributes, ...rest];
+
+    validateTemplate(getStrings(root), valueIndex, host ?? null);
   }
 
   /**
    * Updates all dynamic parts with the provided values.
-   * @param values The array of values corresponding to part indices.
+   * @param values The template values, in the order they appear in the template.
    */
   update(values: any[]) {
     for (const i of this.indexList) 
     {
-      if (this.meta[i].descriptor.kind === "attr")
+      const { descriptor, part, valueIndex } = this.meta[i];
+      if (descriptor.kind === "attr")
       {
-        const v = values.slice(i, i + this.meta[i].descriptor.strings.length);
-        this.meta[i].part.apply(v);
+        const v = values.slice(valueIndex, valueIndex + descriptor.strings.length - 1);
+        part.apply(v);
       }
       else 
       {
-        this.meta[i].part.apply(values[i]);
+        part.apply(values[valueIndex]);
       }
     }
   }
 
+  /**
+   * Notifies all parts that the host was connected or disconnected.
+   */
+  setConnected(connected: boolean) {
+    this.meta.forEach(meta => meta.part.setConnected?.(connected));
+  }
+
+  /**
+   * Removes all parts and the template DOM, for a fragment everything between its boundaries.
+   */
   remove() {
     this.meta.forEach(meta => meta.part.remove());
     this.meta = [];
+
+    if (this.start && this.end)
+    {
+      let node: Node | null = this.start;
+      while (node)
+      {
+        const next: Node | null = node === this.end ? null : node.nextSibling;
+        node.parentNode?.removeChild(node);
+        node = next;
+      }
+      return;
+    }
     this.root.parentNode?.removeChild(this.root);
   }
 
+  /** The root element, `null` for a fragment root. */
   get element() {
-    return this.root;
+    return this.root instanceof Element ? this.root : null;
   }
 }
\ No newline at end of file
@@ -1,24 +1,39 @@
+import type { TemplateRoot } from "@html/types";
+
 export type PartDescriptor =
-  | { kind: 'value', marker: Comment }
-  | { kind: 'list', marker: Comment }
-  | { kind: 'nested', marker: Comment }
-  | { kind: 'attr', element: Element, name: string, strings: string[] }
+  | { kind: 'value', marker: Comment, nodes?: Node[] }
+  | { kind: 'list', marker: Comment, nodes?: Node[] }
+  | { kind: 'nested', marker: Comment, nodes?: Node[] }
+  | { kind: 'attr', element: Element, name: string, strings: string[], hydrate?: boolean }
+  | { kind: 'boolean', element: Element, name: string, hydrate?: boolean }
+  | { kind: 'property', element: Element, name: string }
+  | { kind: 'sync', element: Element, name: string, event?: string }
   | { kind: 'event', element: Element, name: string };
 
 export interface Part {
   apply(newValue: any, oldValue?: any): void;
   clear(): void;
   remove(): void;
+  setConnected?(connected: boolean): void;
 }
 
 export type PartFactory = (desc: PartDescriptor, helpers: PartHelpers) => Part;
 
 export type PartHelpers = {
+  host: HTMLElement | null;
   createPart: (desc: PartDescriptor) => Part;
-  createTemplateInstance: (rootElement: Element) => ITemplateInstance;
+  createTemplateInstance: (root: TemplateRoot, hydrateNodes?: Node[]) => ITemplateInstance;
 };
 
+export type TemplateInstanceOptions = {
+  /** Existing (server-rendered) nodes to adopt instead of the template clone. */
+  hydrateNodes: Node[];
+  /** The element owning the template, passed on to directives. */
+  host: HTMLElement;
+}
+
 export interface ITemplateInstance {
   update(values: any[]): void;
   remove(): void;
-}
\ No newline at end of file
+  setConnected(connected: boolean): void;
+}
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Build-time compiler turning the strings of an `html` template into
+ * its markup and the child index paths of its dynamic parts, without a DOM.
+ *
+ * @details
+ * - The markup is built by the same `getMarkup` the runtime uses, so the browser parses the same HTML.
+ * - The markup is then tokenized to find where each `<!--marker-->` ends up.
+ *   Only markup the HTML parser builds exactly as written is accepted: every element explicitly closed
+ *   in order, no elements the parser moves or closes implicitly (tables, `<p>` around blocks, nested `<li>`, ...),
+ *   no raw text elements, no foreign content (`<svg>`, `<math>`) and no markers outside of text or attribute values.
+ * - Anything else returns `null`, the template is then compiled at runtime as before.
+ * - Paths mirror `normalizeRoot`: relative to the root element, or to the fragment bounded by `<!--template-start-->`.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import { getMarkup } from "@html/html";
+import type { PrecompiledDescriptor, PrecompiledTemplate } from "@html/precompiled";
+
+type ParsedNode =
+  | { type: "text", blank: boolean }
+  | { type: "comment", value: string }
+  | { type: "element", name: string, attributes: Array<[string, string]>, children: ParsedNode[] };
+
+type ParsedElement = Extract<ParsedNode, { type: "element" }>;
+
+const MARKER = "<!--marker-->";
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// the parser moves, wraps, re-parents or reads these as raw text
+const UNSUPPORTED_ELEMENTS = new Set([
+  "html", "head", "body", "frameset", "frame", "template",
+  "table", "caption", "colgroup", "col", "thead", "tbody", "tfoot", "tr", "td", "th",
+  "select", "option", "optgroup", "datalist",
+  "script", "style", "textarea", "title", "xmp", "iframe", "noembed", "noframes", "noscript", "plaintext",
+  "pre", "listing", "image", "svg", "math",
+]);
+
+// starting one of these closes an open <p>
+const CLOSES_P = new Set([
+  "address", "article", "aside", "blockquote", "details", "dialog", "div", "dl", "fieldset", "figcaption",
+  "figure", "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hgroup", "hr", "main", "menu",
+  "nav", "ol", "p", "search", "section", "summary", "ul",
+]);
+
+// the parser closes an open element of the same name (or group) when one of these starts
+const SELF_CLOSING_GROUPS: Array<Set<string>> = [
+  new Set(["a"]),
+  new Set(["form"]),
+  new Set(["button"]),
+  new Set(["nobr"]),
+  new Set(["li"]),
+  new Set(["dd", "dt"]),
+];
+
+const HEADINGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+
+class Unsupported extends Error {}
+
+/**
+ * Precompiles the cooked strings of an `html` template literal.
+ *
+ * @param strings The template strings, one more than the values
+ * @returns The markup and part paths, or `null` when the template has to be compiled at runtime
+ */
+export function precompileTemplate(strings: readonly string[]): PrecompiledTemplate | null {
+  // the precompiler does not know the values, none of them is an array
+  const markup = getMarkup(strings, new Array(strings.length - 1).fill(null));
+
+  let nodes: ParsedNode[];
+  try
+  {
+    nodes = parse(markup);
+  }
+  catch (error)
+  {
+    if (error instanceof Unsupported) return null;
+    throw error;
+  }
+
+  // normalizeRoot: a single element is the root, anything else is bounded by <!--template-start-->
+  const content = nodes.filter(node => node.type !== "text" || !node.blank);
+  const descriptors: PrecompiledDescriptor[] = [];
+  const counter = { value: 0 };
+  if (content.length === 1 && content[0].type === "element")
+  {
+    collect(content[0], [], descriptors, counter);
+  }
+  else
+  {
+    nodes.forEach((node, index) => collect(node, [index + 1], descriptors, counter));
+  }
+
+  // a marker the tokenizer did not find as a part (e.g. inside a comment) would shift every value
+  if (counter.value !== strings.length - 1) return null;
+
+  return { markup, descriptors };
+}
+
+/**
+ * Adds the descriptors of a node and its children in document order, counting the values they take.
+ */
+function collect(node: ParsedNode, path: number[], descriptors: PrecompiledDescriptor[], counter: { value: number }) {
+  if (node.type === "comment")
+  {
+    if (node.value === "marker") descriptors.push({ path, value: counter.value++ });
+    return;
+  }
+  if (node.type !== "element") return;
+
+  const attributes = node.attributes.filter(([, value]) => value.includes(MARKER));
+  if (attributes.length > 0)
+  {
+    descriptors.push({ path, attributes: attributes.map(([name]) => name) });
+    attributes.forEach(([, value]) => counter.value += value.split(MARKER).length - 1);
+  }
+
+  node.children.forEach((child, index) => collect(child, [...path, index], descriptors, counter));
+}
+
+/**
+ * Tokenizes the markup into a tree, throwing `Unsupported` for anything the HTML parser would build differently.
+ */
+function parse(markup: string): ParsedNode[] {
+  const root: ParsedNode[] = [];
+  const stack: ParsedElement[] = [];
+  const children = () => stack.length ? stack[stack.length - 1].children : root;
+
+  let i = 0;
+  while (i < markup.length)
+  {
+    if (markup.startsWith("<!--", i))
+    {
+      const end = markup.indexOf("-->", i + 4);
+      const value = end === -1 ? "" : markup.slice(i + 4, end);
+      if (end === -1 || value.startsWith(">") || value.startsWith("->") || value.includes("<!--")) throw new Unsupported();
+
+      children().push({ type: "comment", value });
+      i = end + 3;
+      continue;
+    }
+
+    if (markup.startsWith("</", i))
+    {
+      const match = /^<\/([a-zA-Z][^\s/>]*)\s*>/.exec(markup.slice(i));
+      const name = match?.[1].toLowerCase();
+      if (!name || stack.pop()?.name !== name) throw new Unsupported();
+
+      i += match![0].length;
+      continue;
+    }
+
+    if (markup[i] === "<" && /[a-zA-Z]/.test(markup[i + 1] ?? ""))
+    {
+      const element = parseStartTag(markup, i, stack);
+      children().push(element.node);
+      if (!VOID_ELEMENTS.has(element.node.name)) stack.push(element.node);
+
+      i = element.end;
+      continue;
+    }
+
+    // doctype, CDATA, bogus comments and end tags
+    if (markup[i] === "<" && /[!/?]/.test(markup[i + 1] ?? "")) throw new Unsupported();
+
+    // text, up to the next tag or comment
+    let end = i + 1;
+    while (end < markup.length && !(markup[end] === "<" && /[a-zA-Z!/?]/.test(markup[end + 1] ?? ""))) end++;
+
+    const text = markup.slice(i, end);
+    const siblings = children();
+    const previous = siblings[siblings.length - 1];
+    // a text run split by nothing is still one node
+    if (previous?.type === "text")
+    {
+      previous.blank = previous.blank && !/\S/.test(text);
+    }
+    else
+    {
+      siblings.push({ type: "text", blank: !/\S/.test(text) });
+    }
+    i = end;
+  }
+
+  if (stack.length > 0) throw new Unsupported();
+  return root;
+}
+
+function parseStartTag(markup: string, start: number, stack: ParsedElement[]): { node: ParsedElement, end: number } {
+  const nameMatch = /^<([a-zA-Z][^\s/>]*)/.exec(markup.slice(start));
+  const name = nameMatch![1].toLowerCase();
+  if (name.includes("<") || UNSUPPORTED_ELEMENTS.has(name)) throw new Unsupported();
+
+  assertNoImplicitClose(name, stack);
+
+  const attributes: Array<[string, string]> = [];
+  let i = start + nameMatch![0].length;
+  while (true)
+  {
+    while (i < markup.length && /[\s/]/.test(markup[i])) i++;
+    if (i >= markup.length) throw new Unsupported();
+    if (markup[i] === ">") break;
+
+    const attrMatch = /^[^\s/>=]+/.exec(markup.slice(i));
+    if (!attrMatch || /["'<]/.test(attrMatch[0])) throw new Unsupported();
+    const attrName = attrMatch[0].toLowerCase();
+    i += attrMatch[0].length;
+
+    let value = "";
+    let j = i;
+    while (j < markup.length && /\s/.test(markup[j])) j++;
+    if (markup[j] === "=")
+    {
+      j++;
+      while (j < markup.length && /\s/.test(markup[j])) j++;
+
+      const quote = markup[j];
+      if (quote === '"' || quote === "'")
+      {
+        const close = markup.indexOf(quote, j + 1);
+        if (close === -1) throw new Unsupported();
+        value = markup.slice(j + 1, close);
+        i = close + 1;
+      }
+      else
+      {
+        const unquoted = /^[^\s>]*/.exec(markup.slice(j))![0];
+        if (/["'<=`]/.test(unquoted)) throw new Unsupported();
+        value = unquoted;
+        i = j + unquoted.length;
+      }
+    }
+
+    // the parser keeps the first of duplicated attributes only
+    if (attributes.some(([existing]) => existing === attrName)) throw new Unsupported();
+    attributes.push([attrName, value]);
+  }
+
+  return { node: { type: "element", name, attributes, children: [] }, end: i + 1 };
+}
+
+/**
+ * Throws when starting `name` would make the parser close or re-parent an open element.
+ */
+function assertNoImplicitClose(name: string, stack: ParsedElement[]) {
+  const open = stack.map(element => element.name);
+
+  if (CLOSES_P.has(name) && open.includes("p")) throw new Unsupported();
+  if (HEADINGS.has(name) && HEADINGS.has(open[open.length - 1])) throw new Unsupported();
+
+  for (const group of SELF_CLOSING_GROUPS)
+  {
+    if (group.has(name) && open.some(openName => group.has(openName))) throw new Unsupported();
+  }
+}
@@ -0,0 +1,13 @@
+export {
+  precompilePlugin,
+  transformTemplates,
+} from "./plugin";
+
+export {
+  precompileTemplate,
+} from "./compiler";
+
+export type {
+  EsbuildPlugin,
+  PrecompileOptions,
+} from "./types";
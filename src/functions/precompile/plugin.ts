@@ -0,0 +1,345 @@
+/**
+ * @fileoverview esbuild plugin that precompiles `html` tagged templates at build time.
+ *
+ * @details
+ * - Every `` html`...` `` after the `html` import of a module importing it from one of `modules` is replaced by
+ *   `html(__papitTemplateN, ...values)`, where `__papitTemplateN` is created once, right after that import,
+ *   with `` precompiled(descriptors)`...` ``, the same template literal without its expressions.
+ * - Templates `precompileTemplate` does not accept, and files the scanner cannot follow, are left as they are
+ *   and compiled at runtime.
+ * - Nested templates inside `${...}` are precompiled too.
+ *
+ * @example
+ * ```js
+ * import { build } from "esbuild";
+ * import { precompilePlugin } from "@papit/core/precompile";
+ *
+ * await build({
+ *   entryPoints: ["src/index.ts"],
+ *   bundle: true,
+ *   plugins: [precompilePlugin()],
+ * });
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import { readFile } from "node:fs/promises";
+import { precompileTemplate } from "./compiler";
+import type { EsbuildPlugin, PrecompileOptions } from "./types";
+
+const IDENTIFIER = /[\w$]/;
+// after these a `/` starts a regular expression, not a division
+const REGEX_PREFIX = /[(,=:[!&|?{};+\-*%<>~^]$|(?:^|[^\w$.])(?:return|typeof|case|do|else|in|of|new|delete|void|throw|yield|await)$/;
+
+class ScanError extends Error {}
+
+/**
+ * Creates the esbuild plugin.
+ */
+export function precompilePlugin(options: Partial<PrecompileOptions> = {}): EsbuildPlugin {
+  const filter = options.filter ?? /\.(m?js|ts)$/;
+  const modules = options.modules ?? ["@papit/core"];
+
+  return {
+    name: "papit-precompile",
+    setup(build) {
+      build.onLoad({ filter }, async args => {
+        if (!options.includeNodeModules && /[\\/]node_modules[\\/]/.test(args.path)) return undefined;
+
+        const source = await readFile(args.path, "utf8");
+        const contents = transformTemplates(source, modules);
+        if (contents === null) return undefined;
+
+        return { contents, loader: args.path.endsWith(".ts") ? "ts" : "js" };
+      });
+    },
+  };
+}
+
+/**
+ * Precompiles the `html` templates of a module's source.
+ *
+ * @param source The module source
+ * @param modules The module specifiers `html` is imported from
+ * @returns The transformed source, or `null` when there is nothing to precompile
+ */
+export function transformTemplates(source: string, modules: string[] = ["@papit/core"]): string | null {
+  const htmlImport = modules
+    .map(module => ({ module, match: findHtmlImport(source, module) }))
+    .find(entry => entry.match);
+  if (!htmlImport) return null;
+
+  // the declarations go right after the `html` import, so the import order of the module stays the same
+  const head = source.slice(0, htmlImport.match!.index + htmlImport.match![0].length);
+  const templates: string[] = [];
+  let code: string;
+  try
+  {
+    code = transformCode(source.slice(head.length), templates);
+  }
+  catch (error)
+  {
+    if (error instanceof ScanError) return null;
+    throw error;
+  }
+  if (templates.length === 0) return null;
+
+  const declarations = [
+    `import { precompiled as __papitPrecompiled } from ${JSON.stringify(htmlImport.module)};`,
+    ...templates.map((template, index) => `const __papitTemplate${index} = ${template};`),
+  ].join("\n");
+
+  return head + "\n" + declarations + code;
+}
+
+function findHtmlImport(source: string, module: string) {
+  const escaped = module.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  return new RegExp(`import\\s*\\{[^}]*\\bhtml\\b(?!\\s+as\\b)[^}]*\\}\\s*from\\s*["']${escaped}["'];?`).exec(source);
+}
+
+/**
+ * Copies the code, replacing the `html` templates it finds (also inside template expressions).
+ */
+function transformCode(code: string, templates: string[]): string {
+  let output = "";
+  let i = 0;
+  let last = 0;
+
+  while (i < code.length)
+  {
+    const char = code[i];
+
+    if (char === "/" && code[i + 1] === "/")
+    {
+      const end = code.indexOf("\n", i);
+      i = end === -1 ? code.length : end;
+      continue;
+    }
+    if (char === "/" && code[i + 1] === "*")
+    {
+      const end = code.indexOf("*/", i + 2);
+      if (end === -1) throw new ScanError();
+      i = end + 2;
+      continue;
+    }
+    if (char === "'" || char === '"')
+    {
+      i = skipString(code, i);
+      continue;
+    }
+    if (char === "/" && REGEX_PREFIX.test(code.slice(Math.max(0, i - 10), i).trimEnd() || "("))
+    {
+      i = skipRegex(code, i);
+      continue;
+    }
+    if (char === "`")
+    {
+      const literal = scanTemplate(code, i);
+      const before = code.slice(last, i);
+      const tag = /(?<![\w$.])html\s*$/.exec(before);
+
+      // the `html` tag is emitted again by replaceTemplate as a call
+      output += tag ? before.slice(0, tag.index) + replaceTemplate(literal, templates) : before + rebuildTemplate(literal, templates);
+      i = last = literal.end;
+      continue;
+    }
+    i++;
+  }
+
+  return output + code.slice(last);
+}
+
+type TemplateLiteral = { raw: string[], expressions: string[], end: number };
+
+/**
+ * Reads a template literal starting at the backtick `start`.
+ */
+function scanTemplate(code: string, start: number): TemplateLiteral {
+  const raw: string[] = [];
+  const expressions: string[] = [];
+  let current = "";
+  let i = start + 1;
+
+  while (i < code.length)
+  {
+    const char = code[i];
+    if (char === "\\")
+    {
+      current += code.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (char === "`")
+    {
+      raw.push(current);
+      return { raw, expressions, end: i + 1 };
+    }
+    if (char === "$" && code[i + 1] === "{")
+    {
+      raw.push(current);
+      current = "";
+      const end = skipExpression(code, i + 2);
+      expressions.push(code.slice(i + 2, end));
+      i = end + 1;
+      continue;
+    }
+    current += char;
+    i++;
+  }
+  throw new ScanError();
+}
+
+/**
+ * Finds the `}` closing the expression starting at `start`.
+ */
+function skipExpression(code: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < code.length)
+  {
+    const char = code[i];
+    if (char === "/" && code[i + 1] === "/")
+    {
+      const end = code.indexOf("\n", i);
+      if (end === -1) throw new ScanError();
+      i = end;
+    }
+    else if (char === "/" && code[i + 1] === "*")
+    {
+      const end = code.indexOf("*/", i + 2);
+      if (end === -1) throw new ScanError();
+      i = end + 2;
+    }
+    else if (char === "'" || char === '"') i = skipString(code, i);
+    else if (char === "`") i = scanTemplate(code, i).end;
+    else if (char === "/" && REGEX_PREFIX.test(code.slice(Math.max(0, i - 10), i).trimEnd() || "(")) i = skipRegex(code, i);
+    else if (char === "{") { depth++; i++; }
+    else if (char === "}")
+    {
+      if (depth === 0) return i;
+      depth--;
+      i++;
+    }
+    else i++;
+  }
+  throw new ScanError();
+}
+
+function skipString(code: string, start: number): number {
+  const quote = code[start];
+  let i = start + 1;
+  while (i < code.length)
+  {
+    if (code[i] === "\\") i += 2;
+    else if (code[i] === quote) return i + 1;
+    else if (code[i] === "\n") throw new ScanError();
+    else i++;
+  }
+  throw new ScanError();
+}
+
+function skipRegex(code: string, start: number): number {
+  let i = start + 1;
+  let inClass = false;
+  while (i < code.length)
+  {
+    const char = code[i];
+    if (char === "\\") i += 2;
+    else if (char === "\n") throw new ScanError();
+    else if (char === "[") { inClass = true; i++; }
+    else if (char === "]") { inClass = false; i++; }
+    else if (char === "/" && !inClass)
+    {
+      i++;
+      while (i < code.length && IDENTIFIER.test(code[i])) i++;
+      return i;
+    }
+    else i++;
+  }
+  throw new ScanError();
+}
+
+/**
+ * The template literal with its expressions transformed, for untagged and not precompilable templates.
+ */
+function rebuildTemplate(literal: TemplateLiteral, templates: string[]): string {
+  let result = "`" + literal.raw[0];
+  literal.expressions.forEach((expression, index) => {
+    result += "${" + transformCode(expression, templates) + "}" + literal.raw[index + 1];
+  });
+  return result + "`";
+}
+
+/**
+ * Replaces an `html` tagged template by an `html(...)` call with its precompiled strings,
+ * or returns the tagged template as it was (expressions transformed) when it cannot be precompiled.
+ */
+function replaceTemplate(literal: TemplateLiteral, templates: string[]): string {
+  const strings = literal.raw.map(cook);
+  const precompiled = strings.every((value): value is string => value !== null) ? precompileTemplate(strings) : null;
+  if (!precompiled) return "html" + rebuildTemplate(literal, templates);
+
+  // expressions first, their own templates are declared before this one
+  const values = literal.expressions.map(expression => transformCode(expression, templates));
+  // the raw strings are written as they are, so the tag receives the same strings the template had
+  const literalSource = "`" + literal.raw.join("${0}") + "`";
+  const index = templates.push(`__papitPrecompiled(${JSON.stringify(precompiled.descriptors)})${literalSource}`) - 1;
+  return ["html(__papitTemplate" + index, ...values.map(value => `(${value})`)].join(", ") + ")";
+}
+
+/**
+ * The cooked value of a raw template string, `null` when it has an invalid escape (the cooked string is `undefined`).
+ */
+function cook(raw: string): string | null {
+  let result = "";
+  const text = raw.replace(/\r\n?/g, "\n");
+  for (let i = 0; i < text.length; i++)
+  {
+    if (text[i] !== "\\")
+    {
+      result += text[i];
+      continue;
+    }
+
+    const next = text[++i];
+    switch (next)
+    {
+      case "n": result += "\n"; break;
+      case "t": result += "\t"; break;
+      case "r": result += "\r"; break;
+      case "b": result += "\b"; break;
+      case "f": result += "\f"; break;
+      case "v": result += "\v"; break;
+      case "\n": break;
+      case "\u2028": case "\u2029": break;
+      case "x":
+      {
+        const hex = /^[0-9a-fA-F]{2}/.exec(text.slice(i + 1))?.[0];
+        if (!hex) return null;
+        result += String.fromCharCode(parseInt(hex, 16));
+        i += 2;
+        break;
+      }
+      case "u":
+      {
+        const match = /^(?:\{([0-9a-fA-F]+)\}|([0-9a-fA-F]{4}))/.exec(text.slice(i + 1));
+        if (!match) return null;
+        const codePoint = parseInt(match[1] ?? match[2], 16);
+        if (codePoint > 0x10ffff) return null;
+        result += String.fromCodePoint(codePoint);
+        i += match[0].length;
+        break;
+      }
+      case "0":
+        if (/[0-9]/.test(text[i + 1] ?? "")) return null;
+        result += "\0";
+        break;
+      default:
+        if (/[1-9]/.test(next)) return null;
+        result += next;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,31 @@
+/**
+ * The part of esbuild's plugin API the precompile plugin uses,
+ * declared here so `esbuild` stays a build tool and not a dependency of the package.
+ */
+export type EsbuildPlugin = {
+  name: string;
+  setup(build: {
+    onLoad(
+      options: { filter: RegExp, namespace?: string },
+      callback: (args: { path: string }) => Promise<{ contents: string, loader: "js" | "ts" } | undefined>,
+    ): void;
+  }): void;
+};
+
+export type PrecompileOptions = {
+  /**
+   * Files to transform, defaults to `.js`, `.mjs` and `.ts` files.
+   */
+  filter: RegExp;
+
+  /**
+   * Module specifiers `html` is imported from, the first one a file imports is used to import `precompiled`.
+   * Defaults to `["@papit/core"]`.
+   */
+  modules: string[];
+
+  /**
+   * Also transform files inside `node_modules`, off by default.
+   */
+  includeNodeModules: boolean;
+};
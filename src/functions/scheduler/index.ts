@@ -0,0 +1,6 @@
+export {
+  Scheduler,
+  type Updatable,
+  microtaskScheduler,
+  frameScheduler,
+} from "./scheduler";
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Batches component updates into one flush per microtask (or animation frame).
+ *
+ * @details
+ * - `enqueue` adds an updatable to the queue and schedules a flush, repeated calls before the flush are merged.
+ * - A flush updates the queued elements shallowest first, following shadow hosts,
+ *   so parents render before their children and pass them their new properties in the same flush.
+ * - Updates requested during a flush (e.g. a parent setting a child property) run in the same flush.
+ * - An element updating more than `MAX_UPDATES` times in one flush (e.g. requesting again in every `updated()`)
+ *   is reported and moved to a later task, so the flush ends and the page stays responsive.
+ * - An update throwing is reported and does not stop the others.
+ *
+ * @example
+ * ```ts
+ * microtaskScheduler.enqueue(element); // element.performUpdate() runs in the next microtask
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+export interface Updatable {
+  performUpdate(): void;
+}
+
+const MAX_UPDATES = 100;
+
+// updatables already reported for updating in a loop, each is reported once
+const reported = new WeakSet<Updatable>();
+
+export class Scheduler {
+  private queue = new Set<Updatable>();
+  private scheduled = false;
+
+  /**
+   * @param schedule Runs the flush later, e.g. `queueMicrotask`
+   */
+  constructor(private schedule: (flush: () => void) => void) {}
+
+  /** Queues the updatable for the next flush. */
+  enqueue(updatable: Updatable) {
+    this.queue.add(updatable);
+    if (this.scheduled) return;
+    this.scheduled = true;
+    this.schedule(() => this.flush());
+  }
+
+  private flush() {
+    this.scheduled = false;
+    // updates per updatable in this flush
+    const counts = new Map<Updatable, number>();
+
+    while (this.queue.size > 0)
+    {
+      const batch = Array.from(this.queue)
+        .map(updatable => ({ updatable, depth: getDepth(updatable) }))
+        .sort((a, b) => a.depth - b.depth);
+
+      for (const { updatable } of batch)
+      {
+        // requesting again after this point queues it for the next round
+        this.queue.delete(updatable);
+
+        const count = (counts.get(updatable) ?? 0) + 1;
+        counts.set(updatable, count);
+        if (count > MAX_UPDATES)
+        {
+          this.defer(updatable);
+          continue;
+        }
+
+        try 
+        {
+          updatable.performUpdate();
+        }
+        catch (error) 
+        {
+          console.error("[error] core: update failed", error);
+        }
+      }
+    }
+  }
+
+  /** Moves an updatable requesting updates in a loop out of the flush, to a later task. */
+  private defer(updatable: Updatable) {
+    if (!reported.has(updatable))
+    {
+      reported.add(updatable);
+      console.error(`[error] core: ${describe(updatable)} updated ${MAX_UPDATES} times in one flush, it keeps requesting updates (in updated() or a watcher?), the next update runs in a later task`);
+    }
+    setTimeout(() => this.enqueue(updatable));
+  }
+}
+
+/** Batches updates into the next microtask (the default). */
+export const microtaskScheduler = new Scheduler(flush => queueMicrotask(flush));
+
+/** Batches updates into the next animation frame, for work that should not run more than once per frame. */
+export const frameScheduler = new Scheduler(flush => {
+  if (typeof requestAnimationFrame === "function") requestAnimationFrame(() => flush());
+  else setTimeout(flush, 16);
+});
+
+/** Name of an updatable for messages, the tag name of elements. */
+function describe(updatable: Updatable) {
+  if (typeof Element !== "undefined" && updatable instanceof Element) return `<${updatable.localName}>`;
+  return updatable.constructor.name;
+}
+
+/** Number of ancestors up to the document, crossing shadow roots. */
+function getDepth(updatable: Updatable) {
+  let depth = 0;
+  // no DOM during server rendering
+  if (typeof Node === "undefined") return depth;
+
+  let node: Node | null = updatable instanceof Node ? updatable : null;
+  while (node)
+  {
+    depth++;
+    node = node.parentNode ?? (node as Partial<ShadowRoot>).host ?? null;
+  }
+  return depth;
+}
@@ -0,0 +1,8 @@
+export {
+  Signal,
+  Computed,
+  signal,
+  computed,
+  effect,
+  isSignal,
+} from "./signal";
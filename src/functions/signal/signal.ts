@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Fine-grained reactive state: `signal`, `computed` and `effect`.
+ *
+ * @details
+ * - A `Signal` holds a value; reading `.value` inside a tracked scope (an effect, a computed,
+ *   or `CustomElement.render()`) subscribes that scope to the signal.
+ * - Writing `.value` notifies every subscribed scope. Equal values (`Object.is`) are ignored.
+ * - A `Computed` derives its value from other signals lazily and caches it until one of them changes.
+ *   It releases its sources when its last subscriber goes, or on `dispose()`, and reads them again on the next read.
+ * - `effect` runs a function now and again, synchronously, whenever a signal it read changes.
+ * - Signals are Observable-like (`subscribe(next)`), so binding one directly in a template
+ *   updates just that part through `until` instead of re-rendering the component.
+ *
+ * @example
+ * ```ts
+ * const count = signal(0);
+ * const double = computed(() => count.value * 2);
+ * const stop = effect(() => console.log(double.value)); // logs 0
+ * count.value = 2; // logs 4
+ * stop();
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+// The scope currently reading signals, if any
+let activeComputation: Computation | null = null;
+
+/**
+ * A tracked scope. Records the signals read during `run` and calls `onInvalidate`
+ * every time one of them changes, until the next `run` or `dispose`.
+ */
+export class Computation {
+  private sources = new Set<Signal<any>>();
+
+  constructor(private onInvalidate: () => void) {}
+
+  /** Runs `fn`, replacing the previously tracked signals with the ones it reads. */
+  run<T>(fn: () => T): T {
+    // signals read again stay subscribed, so a computed read in every run is not released in between
+    const previousSources = this.sources;
+    this.sources = new Set();
+
+    try {
+      return this.include(fn);
+    }
+    finally {
+      previousSources.forEach(source => {
+        if (!this.sources.has(source)) source.unobserve(this);
+      });
+    }
+  }
+
+  /** Runs `fn`, adding the signals it reads to the ones tracked since the last `run`. */
+  include<T>(fn: () => T): T {
+    const previous = activeComputation;
+    activeComputation = this;
+    try {
+      return fn();
+    }
+    finally {
+      activeComputation = previous;
+    }
+  }
+
+  /** @internal Called by a signal read during `run`. */
+  track(source: Signal<any>) {
+    this.sources.add(source);
+  }
+
+  /** @internal Called by a tracked signal when it changes. */
+  invalidate() {
+    this.onInvalidate();
+  }
+
+  /** Unsubscribes from every tracked signal. */
+  dispose() {
+    this.sources.forEach(source => source.unobserve(this));
+    this.sources.clear();
+  }
+}
+
+export class Signal<T> {
+  private observers = new Set<Computation>();
+
+  constructor(protected current: T) {}
+
+  get value(): T {
+    this.track();
+    return this.current;
+  }
+
+  set value(value: T) {
+    if (Object.is(value, this.current)) return;
+    this.current = value;
+    this.notify();
+  }
+
+  /** Reads the value without subscribing the current scope. */
+  peek(): T {
+    return this.current;
+  }
+
+  /**
+   * Calls `next` with the current value and again after each change.
+   * @returns A function that stops the subscription
+   */
+  subscribe(next: (value: T) => void): () => void {
+    return effect(() => {
+      const value = this.value;
+      untracked(() => next(value));
+    });
+  }
+
+  /** @internal */
+  unobserve(computation: Computation) {
+    if (this.observers.delete(computation) && this.observers.size === 0) this.unobserved();
+  }
+
+  /** Called when the last subscribed scope goes. */
+  protected unobserved() {}
+
+  protected track() {
+    if (!activeComputation) return;
+    this.observers.add(activeComputation);
+    activeComputation.track(this);
+  }
+
+  protected notify() {
+    Array.from(this.observers).forEach(observer => observer.invalidate());
+  }
+}
+
+export class Computed<T> extends Signal<T> {
+  private dirty = true;
+  private computation: Computation;
+
+  constructor(private fn: () => T) {
+    super(undefined as T);
+    this.computation = new Computation(() => {
+      if (this.dirty) return;
+      this.dirty = true;
+      this.notify();
+    });
+  }
+
+  get value(): T {
+    this.track();
+    return this.peek();
+  }
+
+  set value(_value: T) {
+    throw new TypeError("[error] signal: a computed value cannot be assigned");
+  }
+
+  peek(): T {
+    if (this.dirty) {
+      this.current = this.computation.run(this.fn);
+      this.dirty = false;
+    }
+    return this.current;
+  }
+
+  /**
+   * Unsubscribes from the signals the value is computed from.
+   * Nothing notifies the computed anymore, the next read computes the value again.
+   */
+  dispose() {
+    this.computation.dispose();
+    this.dirty = true;
+  }
+
+  protected unobserved() {
+    this.dispose();
+  }
+}
+
+/**
+ * Creates a writable signal.
+ * @param value The initial value
+ */
+export function signal<T>(value: T): Signal<T> {
+  return new Signal(value);
+}
+
+/**
+ * Creates a read-only signal derived from the signals `fn` reads.
+ * @param fn Computes the value, re-run lazily after a dependency changed
+ */
+export function computed<T>(fn: () => T): Computed<T> {
+  return new Computed(fn);
+}
+
+/**
+ * Runs `fn` and re-runs it whenever a signal it read changes.
+ * @param fn May return a cleanup function, called before the next run and on dispose
+ * @returns A function that stops the effect
+ */
+export function effect(fn: () => void | (() => void)): () => void {
+  let cleanup: void | (() => void);
+  let disposed = false;
+
+  const computation = new Computation(() => {
+    if (!disposed) run();
+  });
+  const run = () => {
+    if (typeof cleanup === "function") cleanup();
+    cleanup = computation.run(fn);
+  };
+
+  run();
+
+  return () => {
+    disposed = true;
+    computation.dispose();
+    if (typeof cleanup === "function") cleanup();
+  };
+}
+
+/**
+ * Checks whether a value is a signal (writable or computed).
+ */
+export function isSignal(value: unknown): value is Signal<unknown> {
+  return value instanceof Signal;
+}
+
+/** Runs `fn` without subscribing the current scope to what it reads. */
+function untracked<T>(fn: () => T): T {
+  const previous = activeComputation;
+  activeComputation = null;
+  try {
+    return fn();
+  }
+  finally {
+    activeComputation = previous;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Minimal DOM globals that let `CustomElement` subclasses be
+ * defined and instantiated where no DOM exists (Node, workers).
+ *
+ * @details
+ * Only what the base class and its decorators touch during construction is covered:
+ * - `HTMLElement` with attributes, `attachShadow`, `attachInternals` and no-op events.
+ * - `customElements` registry with `define`, `get` and `getName`.
+ *
+ * Existing globals are never replaced, so installing the shim in a browser is a no-op.
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+const attributeStore = new WeakMap<object, Map<string, string>>();
+const shadowRootInits = new WeakMap<object, ShadowRootInit>();
+
+function attributes(element: object) {
+  let map = attributeStore.get(element);
+  if (!map) {
+    map = new Map();
+    attributeStore.set(element, map);
+  }
+  return map;
+}
+
+class ShimHTMLElement {
+  get shadowRoot() {
+    const init = shadowRootInits.get(this);
+    if (!init || init.mode !== "open") return null;
+    return { host: this, mode: init.mode };
+  }
+
+  attachShadow(init: ShadowRootInit) {
+    shadowRootInits.set(this, init);
+    return { host: this, mode: init.mode };
+  }
+
+  attachInternals() {
+    return {
+      setValidity() {},
+      setFormValue() {},
+      checkValidity: () => true,
+      reportValidity: () => true,
+    };
+  }
+
+  getAttribute(name: string) {
+    return attributes(this).get(name.toLowerCase()) ?? null;
+  }
+  getAttributeNames() {
+    return Array.from(attributes(this).keys());
+  }
+  hasAttribute(name: string) {
+    return attributes(this).has(name.toLowerCase());
+  }
+  setAttribute(name: string, value: unknown) {
+    attributes(this).set(name.toLowerCase(), String(value));
+  }
+  removeAttribute(name: string) {
+    attributes(this).delete(name.toLowerCase());
+  }
+  toggleAttribute(name: string, force?: boolean) {
+    const next = force ?? !this.hasAttribute(name);
+    if (next) this.setAttribute(name, "");
+    else this.removeAttribute(name);
+    return next;
+  }
+
+  addEventListener() {}
+  removeEventListener() {}
+  dispatchEvent() {
+    return true;
+  }
+}
+
+class ShimCustomElementRegistry {
+  private definitions = new Map<string, CustomElementConstructor>();
+
+  define(name: string, constructor: CustomElementConstructor) {
+    if (this.definitions.has(name)) {
+      throw new Error(`[error] ssr: "${name}" has already been defined`);
+    }
+    this.definitions.set(name, constructor);
+  }
+
+  get(name: string) {
+    return this.definitions.get(name);
+  }
+
+  getName(constructor: CustomElementConstructor) {
+    for (const [name, definition] of this.definitions) {
+      if (definition === constructor) return name;
+    }
+    return null;
+  }
+
+  whenDefined(name: string) {
+    return Promise.resolve(this.get(name));
+  }
+
+  upgrade() {}
+}
+
+/**
+ * Returns the options a shimmed element passed to `attachShadow`, if any.
+ */
+export function getShadowRootInit(element: object) {
+  return shadowRootInits.get(element) ?? null;
+}
+
+/**
+ * Installs the shim on `globalThis` for every global that is missing.
+ * Must run before any module that extends `HTMLElement` is evaluated.
+ */
+export function installDomShim() {
+  const scope = globalThis as any;
+  scope.HTMLElement ??= ShimHTMLElement;
+  scope.customElements ??= new ShimCustomElementRegistry();
+}
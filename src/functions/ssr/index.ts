@@ -0,0 +1,13 @@
+export {
+  renderToString,
+  isServerTemplate,
+} from "./render";
+
+export {
+  installDomShim,
+} from "./dom-shim";
+
+export type {
+  RenderOptions as ServerRenderOptions,
+  ElementConstructor,
+} from "./types";
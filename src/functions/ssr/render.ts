@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Server-side renderer that turns a `CustomElement` subclass into
+ * Declarative Shadow DOM markup, without needing a live DOM.
+ *
+ * @details
+ * - Instantiates the element (against the DOM shim), assigns the given properties and calls `render()`.
+ * - Serializes `html` results, nested templates and arrays into an HTML string.
+ * - Mirrors what the client would produce: event, property and `key` bindings are dropped,
+ *   multi-root templates get the same `<!--template-start-->` / `<!--template-end-->` boundaries
+ *   and styles from `getStyle()` are appended.
+ * - Boolean bindings (`?disabled`) become a bare attribute or are left out, `nothing` renders no content
+ *   and drops the attribute it is bound to.
+ * - Host attributes reflected by `@property` are written onto the host tag.
+ * - Directives are resolved through their `render()`, which must not depend on the DOM.
+ *   Async values are not awaited, they render their `until` placeholder (or nothing), signals their current value.
+ * - Each value is wrapped in `<!--marker-start-->` … `<!--marker-->` (or `<!--list-marker-->`)
+ *   so the client can hydrate the markup instead of rendering it again.
+ *
+ * @example
+ * ```ts
+ * import { renderToString } from "@papit/core/ssr";
+ * import "./my-counter";
+ *
+ * const markup = renderToString("my-counter", { count: 5 });
+ * // <my-counter><template shadowrootmode="open"><div>...</div><style>...</style></template></my-counter>
+ * ```
+ *
+ * @created 2025-10-19
+ * @author Henry Pap (GitHub: @onkelhoy)
+ */
+
+import { isDirectiveResult } from "@functions/directive/directive";
+import { isAsyncValue, until } from "@functions/directive/directives/until";
+import { isSignal } from "@functions/signal/signal";
+import { nothing } from "@html/constants";
+import { isUnsafeHTML } from "@html/unsafe-html";
+import { getStyleNonce } from "@functions/css";
+import { getShadowRootInit } from "./dom-shim";
+import type { ElementConstructor, RenderOptions, ServerTemplate } from "./types";
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+]);
+
+type Scanner = {
+  mode: "text" | "tag" | "comment";
+  source: string;
+  closing: boolean;
+  quote: string | null;
+  depth: number;
+  rootNodes: number;
+  rootElement: boolean;
+  inRootText: boolean;
+}
+
+/**
+ * Renders a custom element to a Declarative Shadow DOM string.
+ *
+ * @param element The element class, or the tag name it was defined with
+ * @param properties Properties assigned to the instance before rendering
+ * @param options See {@link RenderOptions}
+ * @returns The host element markup with its shadow root as `<template shadowrootmode>`
+ */
+export function renderToString(
+  element: ElementConstructor | string,
+  properties: Record<string, unknown> = {},
+  options: Partial<RenderOptions> = {}
+): string {
+  const constructor = typeof element === "string"
+    ? customElements.get(element) as ElementConstructor | undefined
+    : element;
+
+  if (!constructor) throw new Error(`[error] ssr: "${element}" is not a defined custom element`);
+
+  const tagName = options.tagName
+    ?? (typeof element === "string" ? element : (customElements as any).getName?.(constructor));
+
+  if (!tagName) throw new Error("[error] ssr: could not resolve a tag name, pass it through options.tagName");
+
+  const instance = new constructor();
+  const init = getShadowRootInit(instance) ?? instance.shadowRoot;
+  // light DOM markup would be taken for authored children once the client connects
+  if (!init) throw new Error(`[error] ssr: <${tagName}> renders into light DOM (shadow: false), only shadow DOM components can be server rendered`);
+
+  // there is no DOM to update on the server, property setters must not schedule renders
+  instance.requestUpdate = () => Promise.resolve(true);
+  Object.assign(instance, properties);
+
+  const content = instance.render();
+  const markers = options.hydratable ?? true;
+  let markup = typeof content === "string"
+    ? serializeTemplate({ __isTemplateRoot: true, strings: ["", ""], values: [content] }, markers)
+    : serializeTemplate(content as unknown as ServerTemplate, markers);
+
+  const style = instance.getStyle();
+  const nonce = options.nonce ?? getStyleNonce();
+  if (style) markup += `<style${nonce ? ` nonce="${escapeAttribute(nonce)}"` : ""}>${style}</style>`;
+
+
+  let template = `<template shadowrootmode="${init.mode}"`;
+  if (init.delegatesFocus) template += " shadowrootdelegatesfocus";
+  template += `>${markup}</template>`;
+
+  if (options.includeHost === false) return template;
+
+  const attributes = instance.getAttributeNames()
+    .map(name => ` ${name}="${escapeAttribute(instance.getAttribute(name) ?? "")}"`)
+    .join("");
+
+  return `<${tagName}${attributes}>${template}</${tagName}>`;
+}
+
+/**
+ * Checks whether a value is an `html` result created without a DOM.
+ */
+export function isServerTemplate(value: unknown): value is ServerTemplate {
+  return !!value
+    && typeof value === "object"
+    && (value as any).__isTemplateRoot === true
+    && Array.isArray((value as any).strings);
+}
+
+/**
+ * Serializes a server template, bounding multi-root templates with comments
+ * exactly like `normalizeRoot` does on the client (left out when `markers` is off).
+ */
+function serializeTemplate(template: ServerTemplate, markers: boolean): string {
+  const { strings, values } = template;
+  const scanner: Scanner = {
+    mode: "text",
+    source: "",
+    closing: false,
+    quote: null,
+    depth: 0,
+    rootNodes: 0,
+    rootElement: false,
+    inRootText: false,
+  };
+
+  let result = "";
+  // closing quote of an attribute that was dropped (events, properties, key)
+  let skipUntil: string | null = null;
+
+  for (let i = 0; i < strings.length; i++) {
+    let str = strings[i];
+
+    if (skipUntil !== null) {
+      const end = str.indexOf(skipUntil);
+      // the next value belongs to the same dropped attribute
+      if (end < 0) {
+        scan(scanner, str);
+        continue;
+      }
+      scan(scanner, str.slice(0, end + 1));
+      str = str.slice(end + 1);
+      skipUntil = null;
+    }
+
+    scan(scanner, str);
+    result += str;
+
+    if (i >= values.length) continue;
+    const value = resolveDirective(values[i]);
+
+    if (scanner.mode === "text") {
+      if (scanner.depth === 0) countRoot(scanner, false);
+      result += serializeSlot(value, markers, Array.isArray(values[i]));
+      continue;
+    }
+
+    if (scanner.mode !== "tag") continue;
+
+    const match = scanner.source.match(/\s([^\s"'<>\/=]+)\s*=\s*(?:(["'])[^"']*)?$/);
+    if (!match) continue;
+
+    const [full, name, quote = ""] = match;
+    // the value is the whole attribute when nothing but the quotes surround it
+    const whole = /=\s*["']?$/.test(full) && (!quote || strings[i + 1]?.startsWith(quote));
+    const drop = /^(on|@|\.|:|\?)/.test(name)
+      || name === "key"
+      || value === nothing
+      || (whole && value == null);
+
+    if (drop) {
+      result = result.slice(0, result.length - full.length);
+      if (scanner.quote) skipUntil = scanner.quote;
+      if (name.startsWith("?") && value && value !== nothing) result += ` ${name.slice(1)}`;
+      continue;
+    }
+
+    const text = escapeAttribute(String(value ?? ""));
+    result += quote ? text : `"${text}"`;
+  }
+
+  if (scanner.rootNodes === 1 && scanner.rootElement) return result;
+  if (!markers) return result;
+  return `<!--template-start-->${result}<!--template-end-->`;
+}
+
+/**
+ * Serializes a value in content position together with its hydration markers,
+ * mirroring the `ValuePart` / `ListPart` split the client makes.
+ * `list` tells whether the template bound an array directly, which makes it a `<!--list-marker-->`.
+ */
+function serializeSlot(value: unknown, markers: boolean, list: boolean): string {
+  return wrap(serializeValue(value, markers), list ? "list-marker" : "marker", markers);
+}
+
+function wrap(content: string, end: string, markers: boolean) {
+  if (!markers) return content;
+  return `<!--marker-start-->${content}<!--${end}-->`;
+}
+
+/**
+ * Serializes a single value, mirroring `ValuePart`.
+ */
+function serializeValue(value: unknown, markers: boolean): string {
+  value = resolveDirective(value);
+  if (value === nothing || (!value && value != 0)) return "";
+  if (isServerTemplate(value)) return serializeTemplate(value, markers);
+  if (Array.isArray(value)) {
+    return value.map(item => wrap(serializeValue(item, markers), "item-marker", markers)).join("");
+  }
+  if (isUnsafeHTML(value)) return String(value.markup);
+  return escapeHTML(String(value));
+}
+
+/**
+ * Runs directive calls through `render()`, there is no part to update on the server.
+ */
+function resolveDirective(value: unknown): unknown {
+  if (isSignal(value)) value = value.peek();
+  if (isAsyncValue(value)) value = until(value);
+  while (isDirectiveResult(value)) {
+    const instance = new value.__directive(null as any, null);
+    value = instance.render(...value.args);
+  }
+  return value;
+}
+
+/**
+ * Advances the scanner over a chunk of static template markup.
+ * Tracks whether the next value lands in text, a tag or a comment,
+ * and how many top-level nodes the template has.
+ */
+function scan(scanner: Scanner, chunk: string) {
+  for (let i = 0; i < chunk.length; i++) {
+    const char = chunk[i];
+
+    if (scanner.mode === "comment") {
+      if (chunk.startsWith("-->", i)) {
+        scanner.mode = "text";
+        i += 2;
+      }
+      continue;
+    }
+
+    if (scanner.mode === "tag") {
+      scanner.source += char;
+      if (scanner.quote) {
+        if (char === scanner.quote) scanner.quote = null;
+      }
+      else if (char === '"' || char === "'") {
+        scanner.quote = char;
+      }
+      else if (char === ">") {
+        const name = scanner.source.match(/^<\/?([^\s\/>]+)/)?.[1].toLowerCase() ?? "";
+        if (scanner.closing) scanner.depth--;
+        else if (!VOID_ELEMENTS.has(name) && !scanner.source.endsWith("/>")) scanner.depth++;
+        scanner.mode = "text";
+      }
+      continue;
+    }
+
+    if (chunk.startsWith("<!--", i)) {
+      if (scanner.depth === 0) countRoot(scanner, false);
+      scanner.mode = "comment";
+      i += 3;
+      continue;
+    }
+
+    if (char === "<" && /[a-zA-Z\/]/.test(chunk[i + 1] ?? "")) {
+      scanner.closing = chunk[i + 1] === "/";
+      if (scanner.depth === 0 && !scanner.closing) countRoot(scanner, true);
+      scanner.mode = "tag";
+      scanner.source = char;
+      scanner.quote = null;
+      continue;
+    }
+
+    if (scanner.depth === 0 && /\S/.test(char) && !scanner.inRootText) {
+      countRoot(scanner, false);
+      scanner.inRootText = true;
+    }
+  }
+}
+
+function countRoot(scanner: Scanner, element: boolean) {
+  scanner.rootNodes++;
+  scanner.rootElement = scanner.rootNodes === 1 && element;
+  scanner.inRootText = false;
+}
+
+function escapeHTML(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string) {
+  return escapeHTML(value)
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
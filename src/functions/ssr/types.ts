@@ -0,0 +1,38 @@
+import type { CustomElement } from "@element/custom-element";
+
+/**
+ * Shape of an `html` result created without a DOM.
+ * The static strings and dynamic values are kept as-is so they can be serialized.
+ */
+export type ServerTemplate = {
+  __isTemplateRoot: true;
+  strings: ReadonlyArray<string>;
+  values: unknown[];
+}
+
+export type ElementConstructor = new () => CustomElement;
+
+export type RenderOptions = {
+  /**
+   * Tag name used for the host element.
+   * Defaults to the name the class was registered with through `customElements.define`.
+   */
+  tagName: string;
+
+  /**
+   * When false, the host element is left out and only the `<template shadowrootmode>` is returned.
+   */
+  includeHost: boolean;
+
+  /**
+   * Emits the comment markers the client needs to hydrate the output.
+   * Defaults to true, turn off for static markup that never upgrades.
+   */
+  hydratable: boolean;
+
+  /**
+   * CSP nonce written on the `<style>` element.
+   * Defaults to the nonce set with `setStyleNonce`.
+   */
+  nonce: string;
+}
@@ -1,8 +1,18 @@
-export { html } from "./functions/html";
+export { html, nothing, isTemplateRoot, type TemplateRoot, precompiled, type PrecompiledTemplate, unsafeHTML, UnsafeHTML, type TrustedHTML } from "./functions/html";
 
 export * from "./element";
 export * from "./functions/debounce";
+export * from "./functions/directive";
+export * from "./functions/signal";
+export * from "./functions/context";
+export * from "./functions/i18n";
+export * from "./functions/css";
+export * from "./functions/scheduler";
+export * from "./functions/part";
 export * from "./decorators/bind";
 export * from "./decorators/property";
 export * from "./decorators/debounce";
 export * from "./decorators/query";
+export * from "./decorators/query-assigned";
+export * from "./decorators/listen";
+export * from "./decorators/watch";
@@ -0,0 +1,5 @@
+// the shim has to be in place before any element class extending HTMLElement is evaluated
+import { installDomShim } from "./functions/ssr";
+installDomShim();
+
+export * from "./functions/ssr";
@@ -0,0 +1,43 @@
+import { CustomElement, html, property, until } from "@papit/core";
+
+export type Deferred<T> = {
+  promise: Promise<T>;
+  resolve(value: T): void;
+};
+
+declare global {
+  interface Window {
+    // helpers for the tests, which build async values inside the page
+    ASYNC: {
+      until: typeof until;
+      deferred<T>(): Deferred<T>;
+    };
+  }
+}
+
+window.ASYNC = {
+  until,
+  deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(done => resolve = done);
+    return { promise, resolve };
+  },
+};
+
+export class AsyncHost extends CustomElement {
+
+  @property({ rerender: true })
+  content: unknown = null;
+
+  @property({ rerender: true })
+  tooltip: unknown = null;
+
+  render() {
+    return html`
+      <p data-testid="content">${this.content}</p>
+      <p data-testid="tooltip" title=${this.tooltip}>tooltip</p>
+    `;
+  }
+}
+
+customElements.define("async-host", AsyncHost);
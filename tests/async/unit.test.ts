@@ -0,0 +1,108 @@
+import { test, expect } from '@playwright/test';
+import type { AsyncHost, Deferred } from './component';
+
+declare global {
+  interface Window {
+    DEFERRED: Deferred<string>[];
+    UNSUBSCRIBED: number;
+    EMIT: (value: string) => void;
+  }
+}
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('async');
+  await page.evaluate(() => {
+    window.DEFERRED = [window.ASYNC.deferred(), window.ASYNC.deferred()];
+    window.UNSUBSCRIBED = 0;
+  });
+});
+
+test.describe("async values", () => {
+  test('until renders the placeholder, then the result', async ({ page }) => {
+    const content = page.getByTestId("content");
+    await page.evaluate(() => document.querySelector<AsyncHost>("async-host")!.content = window.ASYNC.until(window.DEFERRED[0].promise, "loading"));
+    await expect(content).toHaveText("loading");
+
+    await page.evaluate(() => window.DEFERRED[0].resolve("done"));
+    await expect(content).toHaveText("done");
+  });
+
+  test('a promise bound directly renders once it resolves', async ({ page }) => {
+    const content = page.getByTestId("content");
+    await page.evaluate(() => document.querySelector<AsyncHost>("async-host")!.content = window.DEFERRED[0].promise);
+    await expect(content).toHaveText("");
+
+    await page.evaluate(() => window.DEFERRED[0].resolve("done"));
+    await expect(content).toHaveText("done");
+  });
+
+  test('ignores the late result of a superseded promise', async ({ page }) => {
+    const content = page.getByTestId("content");
+    await page.evaluate(async () => {
+      const host = document.querySelector<AsyncHost>("async-host")!;
+      host.content = window.DEFERRED[0].promise;
+      await new Promise(resolve => setTimeout(resolve, 100));
+      host.content = window.DEFERRED[1].promise;
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      window.DEFERRED[1].resolve("second");
+      await window.DEFERRED[1].promise;
+      window.DEFERRED[0].resolve("first");
+      await window.DEFERRED[0].promise;
+    });
+
+    await expect(content).toHaveText("second");
+  });
+
+  test('renders every value of an async iterable', async ({ page }) => {
+    const content = page.getByTestId("content");
+    await page.evaluate(() => {
+      async function* values() {
+        yield "first";
+        yield await window.DEFERRED[0].promise;
+      }
+      document.querySelector<AsyncHost>("async-host")!.content = values();
+    });
+    await expect(content).toHaveText("first");
+
+    await page.evaluate(() => window.DEFERRED[0].resolve("second"));
+    await expect(content).toHaveText("second");
+  });
+
+  test('binds subscribables in attributes and unsubscribes on disconnect', async ({ page }) => {
+    const tooltip = page.getByTestId("tooltip");
+    await page.evaluate(() => {
+      document.querySelector<AsyncHost>("async-host")!.tooltip = {
+        subscribe(next: (value: string) => void) {
+          window.EMIT = next;
+          next("initial");
+          return () => window.UNSUBSCRIBED++;
+        },
+      };
+    });
+    await expect(tooltip).toHaveAttribute("title", "initial");
+
+    await page.evaluate(() => window.EMIT("next"));
+    await expect(tooltip).toHaveAttribute("title", "next");
+
+    const unsubscribed = await page.evaluate(() => {
+      document.querySelector<AsyncHost>("async-host")!.remove();
+      return window.UNSUBSCRIBED;
+    });
+    expect(unsubscribed).toBe(1);
+  });
+
+  test('unsubscribes when the binding changes', async ({ page }) => {
+    const unsubscribed = await page.evaluate(async () => {
+      const host = document.querySelector<AsyncHost>("async-host")!;
+      host.content = { subscribe: (next: (value: string) => void) => (next("value"), () => window.UNSUBSCRIBED++) };
+      await new Promise(resolve => setTimeout(resolve, 100));
+      host.content = "plain";
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return window.UNSUBSCRIBED;
+    });
+
+    expect(unsubscribed).toBe(1);
+    await expect(page.getByTestId("content")).toHaveText("plain");
+  });
+});
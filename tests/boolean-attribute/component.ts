@@ -0,0 +1,24 @@
+import { CustomElement, html, nothing, property } from "@papit/core";
+
+export class BooleanHost extends CustomElement {
+
+  @property({ rerender: true })
+  disabled = false;
+
+  @property({ rerender: true })
+  tooltip: string | null = null;
+
+  @property({ rerender: true })
+  hint: string | null = null;
+
+  render() {
+    return html`
+      <input data-testid="input" ?disabled=${this.disabled} />
+      <a data-testid="link" title=${this.tooltip ?? nothing}>link</a>
+      <p data-testid="hint">${this.hint ?? nothing}</p>
+      <p data-testid="null">${null}</p>
+    `;
+  }
+}
+
+customElements.define("boolean-host", BooleanHost);
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import type { BooleanHost } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('boolean-attribute');
+});
+
+test.describe("boolean attributes and nothing", () => {
+  test('toggle the presence of the attribute', async ({ page }) => {
+    const input = page.getByTestId("input");
+    await expect(input).toBeEnabled();
+    expect(await input.evaluate(element => element.getAttributeNames())).not.toContain("?disabled");
+
+    await page.evaluate(() => document.querySelector<BooleanHost>("boolean-host")!.disabled = true);
+    await expect(input).toBeDisabled();
+    await expect(input).toHaveAttribute("disabled", "");
+
+    await page.evaluate(() => document.querySelector<BooleanHost>("boolean-host")!.disabled = false);
+    await expect(input).toBeEnabled();
+  });
+
+  test('nothing removes the attribute', async ({ page }) => {
+    const link = page.getByTestId("link");
+    expect(await link.evaluate(element => element.hasAttribute("title"))).toBe(false);
+
+    await page.evaluate(() => document.querySelector<BooleanHost>("boolean-host")!.tooltip = "open");
+    await expect(link).toHaveAttribute("title", "open");
+
+    await page.evaluate(() => document.querySelector<BooleanHost>("boolean-host")!.tooltip = null);
+    await expect.poll(() => link.evaluate(element => element.hasAttribute("title"))).toBe(false);
+  });
+
+  test('nothing and null render no content', async ({ page }) => {
+    await expect(page.getByTestId("hint")).toHaveText("");
+    await expect(page.getByTestId("null")).toHaveText("");
+
+    await page.evaluate(() => document.querySelector<BooleanHost>("boolean-host")!.hint = "shown");
+    await expect(page.getByTestId("hint")).toHaveText("shown");
+
+    await page.evaluate(() => document.querySelector<BooleanHost>("boolean-host")!.hint = null);
+    await expect(page.getByTestId("hint")).toHaveText("");
+  });
+});
@@ -0,0 +1,61 @@
+import { CustomElement, html, property } from "@papit/core";
+
+// answers like a provider from another bundle or library, by the shape of the event only
+// (registered before the consumers are defined, they request on connect)
+document.querySelector("[data-testid='foreign']")?.addEventListener("context-request", event => {
+  const request = event as Event & { context: unknown, callback(value: unknown): void };
+  if (request.context !== "theme") return;
+  event.stopPropagation();
+  request.callback("foreign");
+});
+
+export class ContextReader extends CustomElement {
+
+  @property({ context: { key: "theme", role: "consumer" }, rerender: true })
+  theme = "none";
+
+  render() {
+    return html`<p>${this.theme}</p>`;
+  }
+}
+customElements.define("context-reader", ContextReader);
+
+export class ContextOnce extends CustomElement {
+
+  @property({ context: { key: "theme", role: "consumer", subscribe: false }, rerender: true })
+  theme = "none";
+
+  render() {
+    return html`<p>${this.theme}</p>`;
+  }
+}
+customElements.define("context-once", ContextOnce);
+
+export class ContextApp extends CustomElement {
+
+  @property({ context: { key: "theme" } })
+  theme = "light";
+
+  render() {
+    return html`<context-reader data-testid="shadow-reader"></context-reader><slot></slot>`;
+  }
+}
+customElements.define("context-app", ContextApp);
+
+// a provider that is only defined once the test asks for it, after its consumer connected
+export class LateApp extends CustomElement {
+
+  @property({ context: { key: "theme" } })
+  theme = "late";
+
+  render() {
+    return html`<slot></slot>`;
+  }
+}
+
+declare global {
+  interface Window {
+    defineLateApp(): void;
+  }
+}
+window.defineLateApp = () => customElements.define("late-app", LateApp);
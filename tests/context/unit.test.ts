@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test';
+import type { ContextApp } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('context');
+});
+
+test.describe("context", () => {
+  test('consumers resolve the closest provider across shadow roots', async ({ page }) => {
+    await expect(page.getByTestId("shadow-reader")).toHaveText("light");
+    await expect(page.getByTestId("light-reader")).toHaveText("light");
+  });
+
+  test('subscribed consumers follow the provider', async ({ page }) => {
+    await page.evaluate(() => document.querySelector<ContextApp>("context-app")!.theme = "dark");
+
+    await expect(page.getByTestId("shadow-reader")).toHaveText("dark");
+    await expect(page.getByTestId("light-reader")).toHaveText("dark");
+    await expect(page.getByTestId("once")).toHaveText("light");
+  });
+
+  test('a consumer connected before its provider resolves once it is defined', async ({ page }) => {
+    await expect(page.getByTestId("late-reader")).toHaveText("none");
+
+    await page.evaluate(() => window.defineLateApp());
+    await expect(page.getByTestId("late-reader")).toHaveText("late");
+  });
+
+  test('any element answering the protocol provides', async ({ page }) => {
+    await expect(page.getByTestId("foreign-reader")).toHaveText("foreign");
+  });
+
+  test('a disconnected consumer stops receiving changes', async ({ page }) => {
+    const theme = await page.evaluate(async () => {
+      const app = document.querySelector<ContextApp>("context-app")!;
+      const reader = document.querySelector("[data-testid='light-reader']") as HTMLElement & { theme: string };
+      reader.remove();
+      app.theme = "dark";
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return reader.theme;
+    });
+
+    expect(theme).toBe("light");
+  });
+});
@@ -0,0 +1,43 @@
+import { CustomElement, html, ReactiveController, ReactiveControllerHost } from "@papit/core";
+
+// counts ticks, a timer would call `tick` in a real controller
+export class TickController implements ReactiveController {
+  count = 0;
+  log: string[] = [];
+
+  constructor(private host: ReactiveControllerHost) {
+    host.addController(this);
+  }
+
+  tick() {
+    this.count++;
+    this.host.requestUpdate();
+  }
+
+  hostConnected() {
+    this.log.push("hostConnected");
+  }
+
+  hostDisconnected() {
+    this.log.push("hostDisconnected");
+  }
+
+  hostUpdate() {
+    this.log.push("hostUpdate");
+  }
+
+  hostUpdated() {
+    this.log.push("hostUpdated");
+  }
+}
+
+export class ControllerHost extends CustomElement {
+  ticker = new TickController(this);
+
+  render() {
+    this.ticker.log.push("render");
+    return html`<p>${this.ticker.count}</p>`;
+  }
+}
+
+customElements.define("controller-host", ControllerHost);
@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import type { ControllerHost } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('controller');
+});
+
+test.describe("reactive controllers", () => {
+  test('follow the update lifecycle of their host', async ({ page }) => {
+    const log = await page.evaluate(async () => {
+      const host = document.querySelector<ControllerHost>("controller-host")!;
+      await host.updateComplete;
+      return host.ticker.log;
+    });
+
+    expect(log).toEqual(["hostConnected", "hostUpdate", "render", "hostUpdated"]);
+  });
+
+  test('request updates of their host', async ({ page }) => {
+    await page.evaluate(() => {
+      const host = document.querySelector<ControllerHost>("controller-host")!;
+      host.ticker.tick();
+      host.ticker.tick();
+    });
+
+    await expect(page.locator("controller-host p")).toHaveText("2");
+  });
+
+  test('follow their host connecting and disconnecting', async ({ page }) => {
+    const log = await page.evaluate(async () => {
+      const host = document.querySelector<ControllerHost>("controller-host")!;
+      await host.updateComplete;
+      host.ticker.log = [];
+      host.remove();
+      document.body.append(host);
+      await host.updateComplete;
+      return host.ticker.log;
+    });
+
+    expect(log.slice(0, 2)).toEqual(["hostDisconnected", "hostConnected"]);
+  });
+
+  test('stop once removed from their host', async ({ page }) => {
+    const log = await page.evaluate(async () => {
+      const host = document.querySelector<ControllerHost>("controller-host")!;
+      await host.updateComplete;
+      host.ticker.log = [];
+      host.removeController(host.ticker);
+      host.requestUpdate();
+      await host.updateComplete;
+      return host.ticker.log;
+    });
+
+    expect(log).toEqual(["hostDisconnected", "render"]);
+  });
+});
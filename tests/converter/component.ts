@@ -0,0 +1,39 @@
+import { CustomElement, enumConverter, html, property } from "@papit/core";
+
+export enum Size {
+  Small = "s",
+  Large = "l",
+}
+
+export class ConverterHost extends CustomElement {
+
+  @property({ type: Number, attribute: true })
+  count = 0;
+
+  @property({ type: Boolean, attribute: true })
+  open = false;
+
+  @property({ type: Date, attribute: true })
+  since?: Date;
+
+  @property({ type: Array, attribute: "tags" })
+  tags: string[] = [];
+
+  @property({ attribute: true, converter: enumConverter(Size) })
+  size = Size.Small;
+
+  @property({
+    attribute: "point",
+    converter: {
+      fromAttribute: (value: string) => value.split(":").map(Number),
+      toAttribute: (value: number[]) => value.join(":"),
+    },
+  })
+  point: number[] = [0, 0];
+
+  render() {
+    return html`<p>${this.count}</p>`;
+  }
+}
+
+customElements.define("converter-host", ConverterHost);
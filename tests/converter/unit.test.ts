@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test';
+import { enumConverter, getConverter, registerConverter } from "@decorators/property/converters";
+import type { ConverterHost } from './component';
+
+test.describe("attribute converters", () => {
+  test('Number rejects values that are not numbers', () => {
+    const converter = getConverter(Number);
+    expect(converter.fromAttribute("4.5")).toBe(4.5);
+    expect(() => converter.fromAttribute("abc")).toThrow(SyntaxError);
+    expect(() => converter.fromAttribute(" ")).toThrow(SyntaxError);
+  });
+
+  test('Boolean treats only the documented values as false', () => {
+    const converter = getConverter(Boolean);
+    expect(["false", "F", "0", ""].map(value => converter.fromAttribute(value))).toEqual([false, false, false, false]);
+    expect(["true", "yes", "open"].map(value => converter.fromAttribute(value))).toEqual([true, true, true]);
+  });
+
+  test('BigInt, Date and URL round-trip', () => {
+    expect(getConverter(BigInt).fromAttribute("12n")).toBe(BigInt(12));
+    expect(getConverter(BigInt).toAttribute(BigInt(12))).toBe("12");
+
+    const date = getConverter(Date).fromAttribute("2025-10-19T00:00:00.000Z");
+    expect(getConverter(Date).toAttribute(date)).toBe("2025-10-19T00:00:00.000Z");
+    expect(() => getConverter(Date).fromAttribute("someday")).toThrow(SyntaxError);
+
+    expect(getConverter(URL).toAttribute(getConverter(URL).fromAttribute("https://example.com/a?b=c"))).toBe("https://example.com/a?b=c");
+  });
+
+  test('Array splits space- and comma-separated tokens', () => {
+    expect(getConverter(Array).fromAttribute("a b,c ,  d")).toEqual(["a", "b", "c", "d"]);
+    expect(getConverter(Array).toAttribute(["a", "b"])).toBe("a b");
+  });
+
+  test('types without a converter fall back to JSON', () => {
+    class Point {}
+    expect(getConverter(Point).fromAttribute('{"x":1}')).toEqual({ x: 1 });
+    expect(() => getConverter(Point).fromAttribute("{x")).toThrow(SyntaxError);
+  });
+
+  test('registerConverter replaces the converter of a type', () => {
+    class Money {
+      constructor(readonly cents: number) {}
+    }
+    registerConverter(Money, {
+      fromAttribute: value => new Money(Math.round(Number(value) * 100)),
+      toAttribute: (value: Money) => (value.cents / 100).toFixed(2),
+    });
+
+    expect(getConverter(Money).fromAttribute("1.5")).toEqual(new Money(150));
+    expect(getConverter(Money).toAttribute(new Money(150))).toBe("1.50");
+  });
+
+  test('enumConverter accepts member names and values', () => {
+    enum Size { Small = "s", Large = "l" }
+    enum Level { Low, High }
+
+    expect(enumConverter(Size).fromAttribute("Large")).toBe("l");
+    expect(enumConverter(Size).fromAttribute("s")).toBe("s");
+    expect(enumConverter(Level).fromAttribute("High")).toBe(1);
+    expect(enumConverter(Level).fromAttribute("0")).toBe(0);
+    expect(() => enumConverter(Size).fromAttribute("medium")).toThrow('"medium" is not one of Small, Large');
+  });
+});
+
+test.describe("attribute converters in components", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('converter');
+  });
+
+  test('attributes are converted by the property type', async ({ page }) => {
+    const values = await page.evaluate(() => {
+      const host = document.querySelector<ConverterHost>("converter-host")!;
+      host.setAttribute("count", "7");
+      host.setAttribute("open", "false");
+      host.setAttribute("since", "2025-10-19T00:00:00.000Z");
+      host.setAttribute("tags", "a, b c");
+      host.setAttribute("size", "Large");
+      host.setAttribute("point", "3:4");
+      return {
+        count: host.count,
+        open: host.open,
+        since: host.since?.toISOString(),
+        tags: host.tags,
+        size: host.size,
+        point: host.point,
+      };
+    });
+
+    expect(values).toEqual({
+      count: 7,
+      open: false,
+      since: "2025-10-19T00:00:00.000Z",
+      tags: ["a", "b", "c"],
+      size: "l",
+      point: [3, 4],
+    });
+  });
+
+  test('properties are reflected through the converter', async ({ page }) => {
+    const attributes = await page.evaluate(() => {
+      const host = document.querySelector<ConverterHost>("converter-host")!;
+      host.tags = ["x", "y"];
+      host.point = [1, 2];
+      return [host.getAttribute("tags"), host.getAttribute("point")];
+    });
+
+    expect(attributes).toEqual(["x y", "1:2"]);
+  });
+
+  test('a malformed attribute warns and leaves the property unchanged', async ({ page }) => {
+    const warnings: string[] = [];
+    page.on("console", message => {
+      if (message.type() === "warning") warnings.push(message.text());
+    });
+
+    const count = await page.evaluate(() => {
+      const host = document.querySelector<ConverterHost>("converter-host")!;
+      host.setAttribute("count", "3");
+      host.setAttribute("count", "three");
+      return host.count;
+    });
+
+    expect(count).toBe(3);
+    await expect.poll(() => warnings.some(warning => warning.includes('[warn] property: could not parse attribute "count" of <converter-host>'))).toBe(true);
+  });
+});
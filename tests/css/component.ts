@@ -0,0 +1,18 @@
+import { CustomElement, css, html } from "@papit/core";
+
+export const baseStyles = css`p { color: rgb(255, 0, 0); margin: 0; }`;
+
+export class CssBase extends CustomElement {
+  static styles = baseStyles;
+
+  render() {
+    return html`<p>text</p><span>label</span>`;
+  }
+}
+customElements.define("css-base", CssBase);
+
+export class CssChild extends CssBase {
+  static styles = css`span { color: rgb(0, 0, 255); }`;
+  static style = "p { font-weight: 700; }";
+}
+customElements.define("css-child", CssChild);
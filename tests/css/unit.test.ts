@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import { CSSResult, css, toCSSResult } from "@functions/css/css";
+
+test.describe("css", () => {
+  test('inlines nested results and stringifies other values', () => {
+    const color = css`red`;
+    const result = css`p { color: ${color}; margin: ${4}px; }`;
+
+    expect(result).toBeInstanceOf(CSSResult);
+    expect(result.cssText).toBe("p { color: red; margin: 4px; }");
+    expect(String(result)).toBe(result.cssText);
+  });
+
+  test('equal styles share one result', () => {
+    expect(css`a { color: blue; }`).toBe(css`a { color: blue; }`);
+    expect(toCSSResult("a { color: blue; }")).toBe(css`a { color: blue; }`);
+
+    const result = css`b {}`;
+    expect(toCSSResult(result)).toBe(result);
+  });
+
+  test('has no stylesheet without constructable stylesheets', () => {
+    expect(css`i {}`.styleSheet).toBeUndefined();
+  });
+});
+
+test.describe("css in components", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('css');
+  });
+
+  test('styles are applied without style elements', async ({ page }) => {
+    await expect(page.getByTestId("first").locator("p")).toHaveCSS("color", "rgb(255, 0, 0)");
+    expect(await page.getByTestId("first").evaluate(element => element.shadowRoot!.querySelectorAll("style").length)).toBe(0);
+  });
+
+  test('instances adopt the same stylesheet', async ({ page }) => {
+    const shared = await page.evaluate(() => {
+      const [first, second] = Array.from(document.querySelectorAll("css-base"));
+      return first.shadowRoot!.adoptedStyleSheets.length === 1
+        && first.shadowRoot!.adoptedStyleSheets[0] === second.shadowRoot!.adoptedStyleSheets[0];
+    });
+
+    expect(shared).toBe(true);
+  });
+
+  test('subclasses inherit the styles of their base class, base class first', async ({ page }) => {
+    const child = page.getByTestId("child");
+    await expect(child.locator("p")).toHaveCSS("color", "rgb(255, 0, 0)");
+    await expect(child.locator("p")).toHaveCSS("font-weight", "700");
+    await expect(child.locator("span")).toHaveCSS("color", "rgb(0, 0, 255)");
+
+    const sheets = await page.evaluate(() => {
+      const base = document.querySelector("css-base")!.shadowRoot!.adoptedStyleSheets;
+      const child = document.querySelector("css-child")!.shadowRoot!.adoptedStyleSheets;
+      return { count: child.length, sharesBase: child[0] === base[0] };
+    });
+    expect(sheets).toEqual({ count: 3, sharesBase: true });
+  });
+});
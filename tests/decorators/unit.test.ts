@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { property } from "@decorators/property/decorator";
+import { listen } from "@decorators/listen/decorator";
+import { watch } from "@decorators/watch/decorator";
+import { query } from "@decorators/query/decorator";
+import { queryAssignedElements } from "@decorators/query-assigned/decorator";
+
+function method(target: Function, key: string) {
+  return Object.getOwnPropertyDescriptor(target.prototype, key)!;
+}
+
+// the decorators are applied the way `experimentalDecorators` calls them: (prototype, key, descriptor)
+// they only store metadata on the prototype, no DOM is needed
+class Base {
+  onClick() {}
+  onValue() {}
+}
+property({ context: true })(Base.prototype, "theme");
+property({ attribute: "label" })(Base.prototype, "label");
+listen("click")(Base.prototype, "onClick", method(Base, "onClick"));
+watch("value")(Base.prototype, "onValue", method(Base, "onValue"));
+query({ selector: "p", cache: false })(Base.prototype, "paragraph");
+queryAssignedElements({})(Base.prototype, "items");
+
+class Sub extends Base {
+  onKeydown() {}
+  onLabel() {}
+}
+property({ context: true })(Sub.prototype, "size");
+listen("keydown")(Sub.prototype, "onKeydown", method(Sub, "onKeydown"));
+watch("label")(Sub.prototype, "onLabel", method(Sub, "onLabel"));
+query({ selector: "span", cache: false })(Sub.prototype, "span");
+queryAssignedElements({ slot: "header" })(Sub.prototype, "headers");
+
+class First extends Base {}
+property({ attribute: "first-label" })(First.prototype, "firstLabel");
+
+class Second extends Base {}
+property({ attribute: "second-label" })(Second.prototype, "secondLabel");
+
+type AttributeClass = { observedAttributes?: string[], prototype: { propertyMeta?: Map<string, unknown> } };
+const attributes = (target: AttributeClass) => ({
+  observed: target.observedAttributes ?? [],
+  meta: Array.from(target.prototype.propertyMeta?.keys() ?? []),
+});
+
+const meta = (target: object, key: string) => (target as Record<string, Array<{ propertyKey: PropertyKey }>>)[key].map(entry => entry.propertyKey);
+
+test.describe("decorator metadata per class", () => {
+  test("a subclass decorator does not change its base class", () => {
+    expect(meta(Base.prototype, "contextMeta")).toEqual(["theme"]);
+    expect(meta(Base.prototype, "listenMeta")).toEqual(["onClick"]);
+    expect(meta(Base.prototype, "watchMeta")).toEqual(["onValue"]);
+    expect(meta(Base.prototype, "queryMeta")).toEqual(["paragraph"]);
+    expect(meta(Base.prototype, "assignedMeta")).toEqual(["items"]);
+  });
+
+  test("a subclass inherits the metadata of its base class", () => {
+    expect(meta(Sub.prototype, "contextMeta")).toEqual(["theme", "size"]);
+    expect(meta(Sub.prototype, "listenMeta")).toEqual(["onClick", "onKeydown"]);
+    expect(meta(Sub.prototype, "watchMeta")).toEqual(["onValue", "onLabel"]);
+    expect(meta(Sub.prototype, "queryMeta")).toEqual(["paragraph", "span"]);
+    expect(meta(Sub.prototype, "assignedMeta")).toEqual(["items", "headers"]);
+  });
+
+  test("sibling subclasses inherit the base class attributes and keep their own apart", () => {
+    expect(attributes(First as AttributeClass)).toEqual({ observed: ["label", "first-label"], meta: ["label", "first-label"] });
+    expect(attributes(Second as AttributeClass)).toEqual({ observed: ["label", "second-label"], meta: ["label", "second-label"] });
+    expect(attributes(Base as AttributeClass)).toEqual({ observed: ["label"], meta: ["label"] });
+  });
+});
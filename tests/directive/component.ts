@@ -0,0 +1,70 @@
+import { CustomElement, Directive, directive, html, noChange, property } from "@papit/core";
+
+declare global {
+  interface Window {
+    DIRECTIVE_LOG: string[];
+  }
+}
+window.DIRECTIVE_LOG = [];
+
+class ClassMap extends Directive {
+  render(classes: Record<string, boolean>) {
+    return Object.keys(classes).filter(name => classes[name]).join(" ");
+  }
+}
+const classMap = directive(ClassMap);
+
+// logs its lifecycle together with the value it committed before
+class Track extends Directive {
+  render(value: string) {
+    return value;
+  }
+
+  update(value: string) {
+    window.DIRECTIVE_LOG.push(`update ${value} (previous ${this.value})`);
+    return this.render(value);
+  }
+
+  connected() {
+    window.DIRECTIVE_LOG.push("connected");
+  }
+
+  disconnected() {
+    window.DIRECTIVE_LOG.push("disconnected");
+  }
+}
+const track = directive(Track);
+
+// commits its first value only
+class Once extends Directive {
+  render(value: string) {
+    return value;
+  }
+
+  update(value: string) {
+    return this.value === undefined ? value : noChange;
+  }
+}
+const once = directive(Once);
+
+export class DirectiveHost extends CustomElement {
+
+  @property({ rerender: true })
+  label = "a";
+
+  @property({ rerender: true })
+  active = false;
+
+  @property({ rerender: true })
+  show = true;
+
+  render() {
+    return html`
+      <div data-testid="box" class=${classMap({ base: true, active: this.active })}></div>
+      <p data-testid="once">${once(this.label)}</p>
+      ${this.show ? html`<span data-testid="tracked">${track(this.label)}</span>` : null}
+    `;
+  }
+}
+
+customElements.define("directive-host", DirectiveHost);
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import type { DirectiveHost } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('directive');
+});
+
+test.describe("directives", () => {
+  test('commit the value they render', async ({ page }) => {
+    const box = page.getByTestId("box");
+    await expect(box).toHaveAttribute("class", "base");
+
+    await page.evaluate(() => document.querySelector<DirectiveHost>("directive-host")!.active = true);
+    await expect(box).toHaveAttribute("class", "base active");
+  });
+
+  test('receive the previously committed value', async ({ page }) => {
+    await page.evaluate(() => document.querySelector<DirectiveHost>("directive-host")!.label = "b");
+    await expect(page.getByTestId("tracked")).toHaveText("b");
+
+    expect(await page.evaluate(() => window.DIRECTIVE_LOG)).toEqual([
+      "connected",
+      "update a (previous undefined)",
+      "update b (previous a)",
+    ]);
+  });
+
+  test('leave the part untouched with noChange', async ({ page }) => {
+    await page.evaluate(() => document.querySelector<DirectiveHost>("directive-host")!.label = "b");
+    await expect(page.getByTestId("tracked")).toHaveText("b");
+    await expect(page.getByTestId("once")).toHaveText("a");
+  });
+
+  test('disconnect when their part is removed', async ({ page }) => {
+    await page.evaluate(() => document.querySelector<DirectiveHost>("directive-host")!.show = false);
+    await expect(page.getByTestId("tracked")).toHaveCount(0);
+
+    expect(await page.evaluate(() => window.DIRECTIVE_LOG.at(-1))).toBe("disconnected");
+  });
+
+  test('follow the host connecting and disconnecting', async ({ page }) => {
+    const log = await page.evaluate(() => {
+      const host = document.querySelector<DirectiveHost>("directive-host")!;
+      window.DIRECTIVE_LOG = [];
+      host.remove();
+      document.body.append(host);
+      return window.DIRECTIVE_LOG;
+    });
+
+    expect(log.slice(0, 2)).toEqual(["disconnected", "connected"]);
+  });
+});
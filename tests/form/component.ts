@@ -0,0 +1,29 @@
+import { CustomElementInternals, html, Validator } from "@papit/core";
+
+export class FormField extends CustomElementInternals {
+  protected validators: Validator[] = [
+    (value: unknown) => value === "taken" ? "This code is taken." : null,
+  ];
+
+  get validity() {
+    return this._internals.validity;
+  }
+
+  get validationMessage() {
+    return this._internals.validationMessage;
+  }
+
+  render() {
+    return html`<input .value=${this.value ?? ""} @input=${(event: Event) => this.value = (event.target as HTMLInputElement).value} />`;
+  }
+}
+
+customElements.define("form-field", FormField);
+
+export class FormChoice extends FormField {
+  protected validators: Validator[] = [
+    (value: unknown) => !value ? "Please pick an option." : null,
+  ];
+}
+
+customElements.define("form-choice", FormChoice);
@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import type { FormField } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('form');
+});
+
+function field(page: import('@playwright/test').Page, id: string) {
+  return page.getByTestId(id);
+}
+
+function setValue(page: import('@playwright/test').Page, id: string, value: unknown) {
+  return field(page, id).evaluate((element, value) => {
+    (element as FormField).value = value as string;
+  }, value);
+}
+
+function validity(page: import('@playwright/test').Page, id: string) {
+  return field(page, id).evaluate(element => {
+    const { validity, validationMessage } = element as FormField;
+    const flags = ["valueMissing", "patternMismatch", "tooShort", "tooLong", "rangeUnderflow", "rangeOverflow", "customError"] as const;
+    return { valid: validity.valid, flags: flags.filter(flag => validity[flag]), message: validationMessage };
+  });
+}
+
+test.describe("form internals", () => {
+  test('submits the value with the form', async ({ page }) => {
+    await field(page, "code").locator("input").fill("xyz");
+
+    const data = await page.evaluate(() => Object.fromEntries(new FormData(document.querySelector("form")!)));
+    expect(data.code).toBe("xyz");
+  });
+
+  test('computes the validity from the constraints', async ({ page }) => {
+    expect(await validity(page, "code")).toEqual({ valid: true, flags: [], message: "" });
+
+    await setValue(page, "code", "");
+    expect((await validity(page, "code")).flags).toEqual(["valueMissing"]);
+
+    await setValue(page, "code", "ABC");
+    expect((await validity(page, "code")).flags).toEqual(["patternMismatch"]);
+
+    await setValue(page, "code", "ab");
+    expect((await validity(page, "code")).flags).toEqual(["tooShort"]);
+
+    await setValue(page, "amount", 0);
+    expect((await validity(page, "amount")).flags).toEqual(["rangeUnderflow"]);
+
+    await setValue(page, "amount", 11);
+    expect((await validity(page, "amount")).flags).toEqual(["rangeOverflow"]);
+
+    expect(await page.evaluate(() => document.querySelector("form")!.checkValidity())).toBe(false);
+  });
+
+  test('custom validators mark the element invalid with their message', async ({ page }) => {
+    await setValue(page, "code", "taken");
+    expect(await validity(page, "code")).toEqual({ valid: false, flags: ["customError"], message: "This code is taken." });
+  });
+
+  test('validates the initial value at the first connect', async ({ page }) => {
+    expect(await validity(page, "choice")).toEqual({ valid: false, flags: ["customError"], message: "Please pick an option." });
+
+    await setValue(page, "choice", "first");
+    expect(await validity(page, "choice")).toEqual({ valid: true, flags: [], message: "" });
+  });
+
+  test('a form reset brings back the initial value', async ({ page }) => {
+    await setValue(page, "code", "changed");
+    await page.getByTestId("reset").click();
+
+    expect(await field(page, "code").evaluate(element => (element as FormField).value)).toBe("abc");
+    expect(await page.evaluate(() => new FormData(document.querySelector("form")!).get("code"))).toBe("abc");
+  });
+});
@@ -0,0 +1,17 @@
+import { CustomElement, html, property } from "@papit/core";
+
+export class HydrationCounter extends CustomElement {
+
+  @property({
+    type: Number,
+    attribute: true,
+    rerender: true,
+  })
+  count = 0;
+
+  render() {
+    return html`<div><h2>Count: ${this.count}</h2><button onclick=${() => this.count++}>+1</button></div>`;
+  }
+}
+
+customElements.define("hydration-counter", HydrationCounter);
@@ -0,0 +1,38 @@
+import { test, expect } from '@playwright/test';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('hydration');
+});
+
+declare global {
+  interface Window {
+    SERVER_HEADING: HTMLHeadingElement;
+  }
+}
+
+test.describe("hydration", () => {
+  test('adopts the server-rendered nodes', async ({ page }) => {
+    const target = page.getByTestId("server");
+    await expect(target.locator("h2")).toHaveText("Count: 3");
+
+    const adopted = await page.evaluate(() => {
+      const root = document.querySelector("[data-testid='server']")!.shadowRoot!;
+      return root.querySelector("h2") === window.SERVER_HEADING && !root.innerHTML.includes("marker-start");
+    });
+    expect(adopted).toBe(true);
+  });
+
+  test('binds events and updates the adopted nodes', async ({ page }) => {
+    const target = page.getByTestId("server");
+    await target.locator("button").click();
+    await expect(target.locator("h2")).toHaveText("Count: 4");
+
+    expect(await page.evaluate(() => document.querySelector("[data-testid='server']")!.shadowRoot!.querySelector("h2") === window.SERVER_HEADING)).toBe(true);
+  });
+
+  test('falls back to a client render on a mismatch', async ({ page }) => {
+    const target = page.getByTestId("mismatch");
+    await expect(target.locator("h2")).toHaveText("Count: 0");
+    await expect(target.locator("p")).toHaveCount(0);
+  });
+});
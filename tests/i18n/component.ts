@@ -0,0 +1,57 @@
+import { CustomElement, html, property, formatMessage, getLocale, registerTranslations, repeat, setLocale, t, translate } from "@papit/core";
+
+registerTranslations("en", {
+  "cart": {
+    "title": "Cart of {name}",
+    "items": "{count, plural, =0 {Empty} one {# item} other {# items}}",
+  },
+  "fruit": "Fruit: {name}",
+});
+registerTranslations("sv", {
+  "cart": {
+    "title": "{name}s varukorg",
+    "items": "{count, plural, =0 {Tom} one {# vara} other {# varor}}",
+  },
+  "fruit": "Frukt: {name}",
+});
+
+declare global {
+  interface Window {
+    I18N: {
+      formatMessage: typeof formatMessage,
+      getLocale: typeof getLocale,
+      registerTranslations: typeof registerTranslations,
+      setLocale: typeof setLocale,
+      translate: typeof translate,
+    };
+  }
+}
+window.I18N = { formatMessage, getLocale, registerTranslations, setLocale, translate };
+
+export class I18nCart extends CustomElement {
+  @property({ type: Array, rerender: true }) items: string[] = ["apple", "pear"];
+  renders = 0;
+
+  render() {
+    this.renders++;
+    return html`
+      <div>
+        <h2 data-testid="title">${t("cart.title", { name: "Ann" })}</h2>
+        <p data-testid="items">${t("cart.items", { count: this.items.length })}</p>
+        <ul>${repeat(this.items, item => item, item => html`<li>${t("fruit", { name: item })}</li>`)}</ul>
+      </div>
+    `;
+  }
+}
+
+export class I18nStatic extends CustomElement {
+  renders = 0;
+
+  render() {
+    this.renders++;
+    return html`<p data-testid="static">static</p>`;
+  }
+}
+
+customElements.define("i18n-cart", I18nCart);
+customElements.define("i18n-static", I18nStatic);
@@ -0,0 +1,150 @@
+import { test, expect } from '@playwright/test';
+import type { I18nCart, I18nStatic } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('i18n');
+});
+
+test.describe("message formatting", () => {
+  test('plural picks an exact match, then the plural category, then other', async ({ page }) => {
+    const messages = await page.evaluate(() => {
+      const items = "{count, plural, =0 {none} one {# item} other {# items}}";
+      return [0, 1, 1200].map(count => window.I18N.formatMessage(items, { count }, "en"));
+    });
+
+    expect(messages).toEqual(["none", "1 item", "1,200 items"]);
+  });
+
+  test('selectordinal uses the ordinal categories', async ({ page }) => {
+    const messages = await page.evaluate(() => {
+      const place = "{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}";
+      return [1, 2, 3, 4, 22].map(value => window.I18N.formatMessage(place, { place: value }, "en"));
+    });
+
+    expect(messages).toEqual(["1st", "2nd", "3rd", "4th", "22nd"]);
+  });
+
+  test('select picks the branch named by the value, else other', async ({ page }) => {
+    const messages = await page.evaluate(() => {
+      const sound = "{kind, select, cat {meow} dog {woof} other {...}}";
+      return ["cat", "cow"].map(kind => window.I18N.formatMessage(sound, { kind }, "en"));
+    });
+
+    expect(messages).toEqual(["meow", "..."]);
+  });
+
+  test('branches can contain further arguments', async ({ page }) => {
+    const messages = await page.evaluate(() => {
+      const message = "{name} has {count, plural, one {# {kind, select, cat {cat} other {pet}}} other {# pets}}";
+      return [1, 3].map(count => window.I18N.formatMessage(message, { name: "Ann", count, kind: "cat" }, "en"));
+    });
+
+    expect(messages).toEqual(["Ann has 1 cat", "Ann has 3 pets"]);
+  });
+
+  test('numbers are formatted for the locale, missing values are left empty', async ({ page }) => {
+    const messages = await page.evaluate(() => [
+      window.I18N.formatMessage("{value}", { value: 1234.5 }, "de"),
+      window.I18N.formatMessage("[{missing}]", {}, "en"),
+    ]);
+
+    expect(messages).toEqual(["1.234,5", "[]"]);
+  });
+});
+
+test.describe("translations", () => {
+  test('translate reads nested keys and keeps the package catalog', async ({ page }) => {
+    const messages = await page.evaluate(() => [
+      window.I18N.translate("cart.title", { name: "Ann" }),
+      window.I18N.translate("new-core"),
+    ]);
+
+    expect(messages).toEqual(["Cart of Ann", "new-core"]);
+  });
+
+  test('a loader runs once the locale is switched to', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      window.I18N.registerTranslations("de", () => Promise.resolve({ default: { fruit: "Obst: {name}" } }));
+      await window.I18N.setLocale("de");
+      return [window.I18N.getLocale(), window.I18N.translate("fruit", { name: "apple" })];
+    });
+
+    expect(result).toEqual(["de", "Obst: apple"]);
+  });
+
+  test('only the latest setLocale call is applied when an earlier catalog loads later', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      window.I18N.registerTranslations("de", () => new Promise(resolve => setTimeout(() => resolve({ fruit: "Obst: {name}" }), 50)));
+      const slow = window.I18N.setLocale("de");
+      await window.I18N.setLocale("sv");
+      await slow;
+      return [window.I18N.getLocale(), window.I18N.translate("fruit", { name: "apple" })];
+    });
+
+    expect(result).toEqual(["sv", "Frukt: apple"]);
+  });
+
+  test('missing keys fall back to the default locale, then the key, warning once', async ({ page }) => {
+    const warnings: string[] = [];
+    page.on("console", message => {
+      if (message.type() === "warning") warnings.push(message.text());
+    });
+
+    const messages = await page.evaluate(async () => {
+      window.I18N.registerTranslations("en", { shop: { empty: "Nothing here" } });
+      await window.I18N.setLocale("sv");
+      return [
+        window.I18N.translate("shop.empty"),
+        window.I18N.translate("shop.empty"),
+        window.I18N.translate("shop.unknown"),
+      ];
+    });
+
+    expect(messages).toEqual(["Nothing here", "Nothing here", "shop.unknown"]);
+    expect(warnings).toEqual([
+      `[warn] i18n: "shop.empty" is missing in "sv", falling back to "en"`,
+      `[warn] i18n: "shop.unknown" is missing in "sv", falling back to "en"`,
+      `[warn] i18n: "shop.unknown" is missing in "en"`,
+    ]);
+  });
+});
+
+test.describe("locale switch in components", () => {
+  test('translations render in the current locale', async ({ page }) => {
+    await expect(page.getByTestId("title")).toHaveText("Cart of Ann");
+    await expect(page.getByTestId("items")).toHaveText("2 items");
+    await expect(page.getByRole("listitem")).toHaveText(["Fruit: apple", "Fruit: pear"]);
+  });
+
+  test('setLocale re-renders components that translated, including repeat items', async ({ page }) => {
+    await page.evaluate(() => window.I18N.setLocale("sv"));
+
+    await expect(page.getByTestId("title")).toHaveText("Anns varukorg");
+    await expect(page.getByTestId("items")).toHaveText("2 varor");
+    await expect(page.getByRole("listitem")).toHaveText(["Frukt: apple", "Frukt: pear"]);
+  });
+
+  test('components that did not translate are left alone', async ({ page }) => {
+    const renders = await page.evaluate(async () => {
+      const host = document.querySelector<I18nStatic>("i18n-static")!;
+      const cart = document.querySelector<I18nCart>("i18n-cart")!;
+      await host.updateComplete;
+      const before = host.renders;
+      await window.I18N.setLocale("sv");
+      await cart.updateComplete;
+      return host.renders - before;
+    });
+
+    expect(renders).toBe(0);
+  });
+
+  test('plurals follow the item count', async ({ page }) => {
+    await page.evaluate(async () => {
+      const cart = document.querySelector<I18nCart>("i18n-cart")!;
+      cart.items = [];
+      await cart.updateComplete;
+    });
+
+    await expect(page.getByTestId("items")).toHaveText("Empty");
+  });
+});
@@ -0,0 +1,25 @@
+import { CustomElement, css, html, property } from "@papit/core";
+
+export class LightCard extends CustomElement {
+  static styles = css`
+    :host { display: block; }
+    h3 { color: rgb(255, 0, 0); }
+  `;
+
+  @property({ rerender: true })
+  actions = true;
+
+  constructor() {
+    super({ shadow: false });
+  }
+
+  render() {
+    return html`
+      <h3>card</h3>
+      <div class="body"><slot>empty</slot></div>
+      ${this.actions ? html`<footer><slot name="actions"></slot></footer>` : null}
+    `;
+  }
+}
+
+customElements.define("light-card", LightCard);
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { scopeCSS } from "@functions/css/css";
+import type { LightCard } from './component';
+
+test.describe("scopeCSS", () => {
+  test('rewrites host selectors to the tag name', () => {
+    expect(scopeCSS(":host { display: block; }", "x-card")).toBe("x-card { display: block; }");
+    expect(scopeCSS(":host(.open) {}", "x-card")).toBe("x-card.open {}");
+    expect(scopeCSS(":host-context(.dark) p {}", "x-card")).toBe(".dark x-card p {}");
+  });
+
+  test('prefixes other selectors and rewrites slotted', () => {
+    expect(scopeCSS("td, th {}", "x-row")).toBe("x-row td, x-row th {}");
+    expect(scopeCSS("::slotted(li) {}", "x-list")).toBe("x-list slot > li {}");
+    expect(scopeCSS("a:is(.x, .y) {}", "x-a")).toBe("x-a a:is(.x, .y) {}");
+  });
+
+  test('scopes rules inside grouping at-rules only', () => {
+    expect(scopeCSS("@media (min-width: 1px) { p { margin: 0; } }", "x-p")).toBe("@media (min-width: 1px) { x-p p { margin: 0; } }");
+    expect(scopeCSS("@keyframes spin { from { opacity: 0; } }", "x-p")).toBe("@keyframes spin { from { opacity: 0; } }");
+  });
+
+  test('drops comments', () => {
+    expect(scopeCSS("/* :host */ p {}", "x-p")).toBe(" x-p p {}");
+  });
+});
+
+test.describe("light DOM", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('light-dom');
+  });
+
+  test('renders into the element itself', async ({ page }) => {
+    const card = page.getByTestId("card");
+    await expect(card.locator("h3")).toHaveText("card");
+    expect(await card.evaluate(element => element.shadowRoot)).toBeNull();
+  });
+
+  test('scopes the styles to the tag name', async ({ page }) => {
+    await expect(page.getByTestId("card").locator("h3")).toHaveCSS("color", "rgb(255, 0, 0)");
+    await expect(page.getByTestId("outside")).not.toHaveCSS("color", "rgb(255, 0, 0)");
+  });
+
+  test('projects authored children into their slots', async ({ page }) => {
+    const card = page.getByTestId("card");
+    await expect(card.locator(".body slot [data-testid='content']")).toHaveText("authored");
+    await expect(card.locator("footer slot[name='actions'] [data-testid='action']")).toHaveText("save");
+    await expect(card.locator(".body slot")).not.toContainText("empty");
+  });
+
+  test('keeps the fallback content of slots without children', async ({ page }) => {
+    await expect(page.getByTestId("empty").locator(".body slot")).toHaveText("empty");
+  });
+
+  test('moves children along with conditional slots', async ({ page }) => {
+    const card = page.getByTestId("card");
+    const action = await card.getByTestId("action").elementHandle();
+
+    await card.evaluate(element => (element as LightCard).actions = false);
+    await expect(card.locator("footer")).toHaveCount(0);
+    await expect(card.getByTestId("action")).toHaveCount(0);
+
+    await card.evaluate(element => (element as LightCard).actions = true);
+    await expect(card.locator("footer [data-testid='action']")).toHaveCount(1);
+    expect(await card.evaluate((element, action) => element.querySelector("[data-testid='action']") === action, action)).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+import { CustomElement, html, listen } from "@papit/core";
+
+export class ListenHost extends CustomElement {
+  log: string[] = [];
+
+  @listen("click")
+  onClick() {
+    this.log.push("host click");
+  }
+
+  @listen("keydown", { target: "document" })
+  onKeydown(event: KeyboardEvent) {
+    this.log.push(`document ${event.key}`);
+  }
+
+  @listen("resize", { target: "window" })
+  onResize() {
+    this.log.push("window resize");
+  }
+
+  @listen("click", { target: "li[data-value]" })
+  onSelect(_event: MouseEvent, item: HTMLLIElement) {
+    this.log.push(`select ${item.dataset.value}`);
+  }
+
+  @listen("focus", { target: "host", once: true, capture: true })
+  onFirstFocus() {
+    this.log.push("first focus");
+  }
+
+  render() {
+    return html`<ul><li data-value="a"><b>A</b></li><li data-value="b">B</li><li>none</li></ul><input />`;
+  }
+}
+
+customElements.define("listen-host", ListenHost);
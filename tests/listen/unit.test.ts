@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import type { ListenHost } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('listen');
+  await page.evaluate(() => document.querySelector<ListenHost>("listen-host")!.updateComplete);
+});
+
+function log(page: import('@playwright/test').Page) {
+  return page.evaluate(() => document.querySelector<ListenHost>("listen-host")!.log);
+}
+
+test.describe("@listen", () => {
+  test('listens on the host, the document and the window', async ({ page }) => {
+    await page.evaluate(() => {
+      const host = document.querySelector<ListenHost>("listen-host")!;
+      host.dispatchEvent(new MouseEvent("click"));
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+      window.dispatchEvent(new Event("resize"));
+    });
+
+    expect(await log(page)).toEqual(["host click", "document Escape", "window resize"]);
+  });
+
+  test('delegates to the closest element matching a selector', async ({ page }) => {
+    await page.locator("listen-host li b").click();
+    await page.locator("listen-host li", { hasText: "none" }).click();
+
+    expect(await log(page)).toEqual(["select a", "host click", "host click"]);
+  });
+
+  test('once listeners run a single time', async ({ page }) => {
+    await page.locator("listen-host input").focus();
+    await page.locator("listen-host input").blur();
+    await page.locator("listen-host input").focus();
+
+    expect((await log(page)).filter(entry => entry === "first focus")).toEqual(["first focus"]);
+  });
+
+  test('removes the listeners on disconnect and adds them on reconnect', async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const host = document.querySelector<ListenHost>("listen-host")!;
+      host.remove();
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "a" }));
+      window.dispatchEvent(new Event("resize"));
+      const detached = [...host.log];
+
+      document.body.append(host);
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "b" }));
+      return { detached, attached: host.log };
+    });
+
+    expect(result).toEqual({ detached: [], attached: ["document b"] });
+  });
+});
@@ -0,0 +1,20 @@
+import { CustomElement, html, property } from "@papit/core";
+
+export class MultiRoot extends CustomElement {
+
+  @property({ rerender: true })
+  details = true;
+
+  @property({ rerender: true })
+  terms = ["html", "css"];
+
+  render() {
+    return html`
+      <h2>title</h2>
+      ${this.details ? html`<p data-testid="first">first</p><p data-testid="second">second</p>` : null}
+      <dl>${this.terms.map(term => html`<dt>${term}</dt><dd>${term.length}</dd>`)}</dl>
+    `;
+  }
+}
+
+customElements.define("multi-root", MultiRoot);
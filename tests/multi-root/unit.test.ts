@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+import type { MultiRoot } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('multi-root');
+});
+
+function elementNames(page: import('@playwright/test').Page, selector: string) {
+  return page.evaluate((selector) => {
+    const root = document.querySelector<MultiRoot>("multi-root")!.shadowRoot!;
+    const parent = selector ? root.querySelector(selector)! : root;
+    // the style element is not part of the template
+    return Array.from(parent.children).map(child => child.localName).filter(name => name !== "style");
+  }, selector);
+}
+
+test.describe("multi-root templates", () => {
+  test('render without a wrapper element', async ({ page }) => {
+    await expect(page.locator("multi-root h2")).toHaveText("title");
+    expect(await elementNames(page, "")).toEqual(["h2", "p", "p", "dl"]);
+  });
+
+  test('render list items as fragments', async ({ page }) => {
+    expect(await elementNames(page, "dl")).toEqual(["dt", "dd", "dt", "dd"]);
+
+    await page.evaluate(() => document.querySelector<MultiRoot>("multi-root")!.terms = ["html", "css", "ts"]);
+    await expect(page.locator("multi-root dt")).toHaveText(["html", "css", "ts"]);
+    expect(await elementNames(page, "dl")).toEqual(["dt", "dd", "dt", "dd", "dt", "dd"]);
+  });
+
+  test('remove every node of a nested template', async ({ page }) => {
+    await page.evaluate(() => document.querySelector<MultiRoot>("multi-root")!.details = false);
+    await expect(page.getByTestId("first")).toHaveCount(0);
+    await expect(page.getByTestId("second")).toHaveCount(0);
+
+    await page.evaluate(() => document.querySelector<MultiRoot>("multi-root")!.terms = ["html"]);
+    await expect(page.locator("multi-root dt")).toHaveCount(1);
+    await expect(page.locator("multi-root dd")).toHaveCount(1);
+  });
+});
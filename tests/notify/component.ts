@@ -0,0 +1,30 @@
+import { CustomElement, html, property, signal, sync } from "@papit/core";
+
+export class NotifyField extends CustomElement {
+
+  @property({ notify: true, rerender: true })
+  selectedIndex = 0;
+
+  @property({ notify: { event: "value-change", bubbles: true, composed: true } })
+  value = "";
+
+  render() {
+    return html`<span>${this.selectedIndex}</span>`;
+  }
+}
+customElements.define("notify-field", NotifyField);
+
+export class NotifyForm extends CustomElement {
+  text = signal("initial");
+
+  @property({ rerender: true })
+  index = 2;
+
+  render() {
+    return html`
+      <notify-field :selectedIndex=${sync(this, "index")} :value@value-change=${this.text}></notify-field>
+      <p data-testid="index">${this.index}</p>
+    `;
+  }
+}
+customElements.define("notify-form", NotifyForm);
@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+import type { NotifyField, NotifyForm } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('notify');
+  await expect(page.getByTestId("index")).toHaveText("2");
+});
+
+test.describe("notify", () => {
+  test('dispatches a kebab-case changed event with the new and old value', async ({ page }) => {
+    const details = await page.evaluate(() => {
+      const field = document.querySelector("notify-form")!.shadowRoot!.querySelector<NotifyField>("notify-field")!;
+      const details: unknown[] = [];
+      field.addEventListener("selected-index-changed", event => details.push((event as CustomEvent).detail));
+      field.selectedIndex = 4;
+      field.selectedIndex = 4;
+      return details;
+    });
+
+    expect(details).toEqual([{ value: 4, oldValue: 2 }]);
+  });
+
+  test('a configured event bubbles out of the shadow root', async ({ page }) => {
+    const detail = await page.evaluate(() => {
+      let detail: unknown = null;
+      document.addEventListener("value-change", event => detail = (event as CustomEvent).detail);
+      document.querySelector("notify-form")!.shadowRoot!.querySelector<NotifyField>("notify-field")!.value = "typed";
+      return detail;
+    });
+
+    expect(detail).toEqual({ value: "typed", oldValue: "initial" });
+  });
+});
+
+test.describe("two-way binding", () => {
+  test('assigns the bound property to the child', async ({ page }) => {
+    await expect(page.locator("notify-field span")).toHaveText("2");
+
+    await page.evaluate(() => document.querySelector<NotifyForm>("notify-form")!.index = 3);
+    await expect(page.locator("notify-field span")).toHaveText("3");
+  });
+
+  test('writes the child changes back to the parent', async ({ page }) => {
+    await page.evaluate(() => document.querySelector("notify-form")!.shadowRoot!.querySelector<NotifyField>("notify-field")!.selectedIndex = 7);
+    await expect(page.getByTestId("index")).toHaveText("7");
+  });
+
+  test('syncs a signal through a custom event', async ({ page }) => {
+    const values = await page.evaluate(async () => {
+      const form = document.querySelector<NotifyForm>("notify-form")!;
+      const field = form.shadowRoot!.querySelector<NotifyField>("notify-field")!;
+      const initial = field.value;
+      field.value = "from child";
+      const written = form.text.value;
+      form.text.value = "from parent";
+      return { initial, written, assigned: field.value };
+    });
+
+    expect(values).toEqual({ initial: "initial", written: "from child", assigned: "from parent" });
+  });
+});
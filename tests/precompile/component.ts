@@ -0,0 +1,28 @@
+import { CustomElement, html, precompiled, property } from "@papit/core";
+
+// what the precompile plugin emits for html`<div class=${...}><p>${...}</p><button @click=${...}>+1</button></div>`
+const card = precompiled([
+  { path: [], attributes: ["class"] },
+  { path: [0, 0], value: 1 },
+  { path: [1], attributes: ["@click"] },
+])`<div class=${0}><p>${0}</p><button @click=${0}>+1</button></div>`;
+
+// paths that do not match the markup
+const mismatched = precompiled([{ path: [4, 0], value: 0 }])`<div><p>${0}</p></div>`;
+
+export class PrecompiledCard extends CustomElement {
+  @property({ type: Number, rerender: true }) count = 0;
+
+  render() {
+    return html(card, this.count > 0 ? "active" : "idle", this.count, () => this.count++);
+  }
+}
+
+export class MismatchedCard extends CustomElement {
+  render() {
+    return html(mismatched, "runtime");
+  }
+}
+
+customElements.define("precompiled-card", PrecompiledCard);
+customElements.define("mismatched-card", MismatchedCard);
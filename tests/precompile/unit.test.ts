@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { precompileTemplate } from "@functions/precompile/compiler";
+import { transformTemplates } from "@functions/precompile/plugin";
+
+// collects the strings of a template literal, like the plugin sees them
+const strings = (strings: TemplateStringsArray, ..._values: unknown[]) => strings;
+
+test.describe("precompileTemplate", () => {
+  test('computes the paths of a single root element', () => {
+    expect(precompileTemplate(strings`<button @click=${0}>${0}</button>`)).toEqual({
+      markup: '<button @click="<!--marker-->"><!--marker--></button>',
+      descriptors: [
+        { path: [], attributes: ["@click"] },
+        { path: [0], value: 1 },
+      ],
+    });
+  });
+
+  test('computes nested paths and skips static elements', () => {
+    const result = precompileTemplate(strings`<div><h2 class="a ${0}">x</h2><p>${0}</p><input .value=${0}></div>`);
+
+    expect(result?.descriptors).toEqual([
+      { path: [0], attributes: ["class"] },
+      { path: [1, 0], value: 1 },
+      { path: [2], attributes: [".value"] },
+    ]);
+  });
+
+  test('paths of multi-root templates start after <!--template-start-->', () => {
+    const result = precompileTemplate(strings`<p>${0}</p><span>${0}</span>`);
+
+    expect(result?.descriptors).toEqual([
+      { path: [1, 0], value: 0 },
+      { path: [2, 0], value: 1 },
+    ]);
+  });
+
+  test('leaves markup the parser would rebuild to the runtime', () => {
+    expect(precompileTemplate(strings`<table><tr><td>${0}</td></tr></table>`)).toBeNull();
+    expect(precompileTemplate(strings`<p><div>${0}</div></p>`)).toBeNull();
+    expect(precompileTemplate(strings`<ul><li>${0}<li>b</ul>`)).toBeNull();
+    expect(precompileTemplate(strings`<!-- ${0} --><p></p>`)).toBeNull();
+  });
+});
+
+test.describe("transformTemplates", () => {
+  test('replaces templates with precompiled declarations after the html import', () => {
+    const source = [
+      'import { html } from "@papit/core";',
+      'const view = (value) => html`<p class=${value}>${html`<b>${value}</b>`}</p>`;',
+    ].join("\n");
+
+    expect(transformTemplates(source)).toBe([
+      'import { html } from "@papit/core";',
+      'import { precompiled as __papitPrecompiled } from "@papit/core";',
+      'const __papitTemplate0 = __papitPrecompiled([{"path":[0],"value":0}])`<b>${0}</b>`;',
+      'const __papitTemplate1 = __papitPrecompiled([{"path":[],"attributes":["class"]},{"path":[0],"value":1}])`<p class=${0}>${0}</p>`;',
+      'const view = (value) => html(__papitTemplate1, (value), (html(__papitTemplate0, (value))));',
+    ].join("\n"));
+  });
+
+  test('skips backticks inside strings, regular expressions and comments', () => {
+    const source = 'import { html } from "@papit/core";\nconst pattern = /`/; // `\nconst text = "html`"; html`<i>${pattern}</i>`;';
+
+    expect(transformTemplates(source)).toContain('const text = "html`"; html(__papitTemplate0, (pattern));');
+  });
+
+  test('only transforms modules importing html from the configured modules', () => {
+    expect(transformTemplates('import { html } from "lit";\nhtml`<p>${1}</p>`;')).toBeNull();
+    expect(transformTemplates('import { html as h } from "@papit/core";\nh`<p></p>`;')).toBeNull();
+    expect(transformTemplates('import { html } from "lit";\nhtml`<p>${1}</p>`;', ["lit"])).toContain("html(__papitTemplate0, (1));");
+  });
+});
+
+test.describe("precompiled templates in components", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('precompile');
+  });
+
+  test('renders and updates through the precompiled paths', async ({ page }) => {
+    const card = page.locator("precompiled-card");
+    await expect(card.locator("div")).toHaveClass("idle");
+    await expect(card.locator("p")).toHaveText("0");
+
+    await card.getByRole("button").click();
+
+    await expect(card.locator("div")).toHaveClass("active");
+    await expect(card.locator("p")).toHaveText("1");
+  });
+
+  test('a template whose paths do not match falls back to the runtime path', async ({ page }) => {
+    const warnings: string[] = [];
+    page.on("console", message => {
+      if (message.type() === "warning") warnings.push(message.text());
+    });
+    await page.reload();
+
+    await expect(page.locator("mismatched-card p")).toHaveText("runtime");
+    expect(warnings.some(warning => warning.startsWith("[warn] html: a precompiled template does not match its parsed markup"))).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { CustomElement, html, property } from "@papit/core";
+
+export type Item = { id: number, label: string };
+
+export class PropertyChild extends CustomElement {
+  assignments = 0;
+  onPick?: (item: Item) => void;
+  private list: Item[] = [];
+
+  get items() {
+    return this.list;
+  }
+  set items(items: Item[]) {
+    this.assignments++;
+    this.list = items;
+    this.requestUpdate();
+  }
+
+  render() {
+    return html`<ul>${this.items.map(item => html`<li onclick=${() => this.onPick?.(item)}>${item.label}</li>`)}</ul>`;
+  }
+}
+customElements.define("property-child", PropertyChild);
+
+export class PropertyParent extends CustomElement {
+
+  @property({ rerender: true })
+  items: Item[] = [{ id: 1, label: "one" }, { id: 2, label: "two" }];
+
+  @property({ rerender: true })
+  picked = "";
+
+  render() {
+    return html`
+      <property-child .items=${this.items} .onPick=${(item: Item) => this.picked = item.label}></property-child>
+      <p data-testid="picked">${this.picked}</p>
+    `;
+  }
+}
+customElements.define("property-parent", PropertyParent);
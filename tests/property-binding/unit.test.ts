@@ -0,0 +1,46 @@
+import { test, expect } from '@playwright/test';
+import type { PropertyChild, PropertyParent } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('property-binding');
+});
+
+test.describe("property bindings", () => {
+  test('assign the value itself instead of an attribute', async ({ page }) => {
+    await expect(page.locator("property-child li")).toHaveText(["one", "two"]);
+
+    const result = await page.evaluate(() => {
+      const parent = document.querySelector<PropertyParent>("property-parent")!;
+      const child = parent.shadowRoot!.querySelector<PropertyChild>("property-child")!;
+      return {
+        same: child.items === parent.items,
+        attribute: child.hasAttribute("items") || child.hasAttribute(".items"),
+      };
+    });
+    expect(result).toEqual({ same: true, attribute: false });
+  });
+
+  test('pass functions down', async ({ page }) => {
+    await page.locator("property-child li").nth(1).click();
+    await expect(page.getByTestId("picked")).toHaveText("two");
+  });
+
+  test('skip the assignment when the value is unchanged', async ({ page }) => {
+    const assignments = await page.evaluate(async () => {
+      const parent = document.querySelector<PropertyParent>("property-parent")!;
+      const child = parent.shadowRoot!.querySelector<PropertyChild>("property-child")!;
+      const before = child.assignments;
+
+      parent.picked = "other";
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const unchanged = child.assignments - before;
+
+      parent.items = [...parent.items, { id: 3, label: "three" }];
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return { unchanged, changed: child.assignments - before };
+    });
+
+    expect(assignments).toEqual({ unchanged: 0, changed: 1 });
+    await expect(page.locator("property-child li")).toHaveText(["one", "two", "three"]);
+  });
+});
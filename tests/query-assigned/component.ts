@@ -0,0 +1,28 @@
+import { CustomElement, html, queryAssignedElements, queryAssignedNodes } from "@papit/core";
+
+export class AssignedTabs extends CustomElement {
+  loads = 0;
+
+  @queryAssignedElements({
+    slot: "tab",
+    selector: "button",
+    rerender: true,
+    load(this: AssignedTabs) {
+      this.loads++;
+    },
+  })
+  tabs!: HTMLButtonElement[];
+
+  @queryAssignedNodes
+  content!: Node[];
+
+  render() {
+    return html`
+      <nav><slot name="tab"></slot></nav>
+      <p>${this.tabs?.length ?? 0} tabs</p>
+      <slot></slot>
+    `;
+  }
+}
+
+customElements.define("assigned-tabs", AssignedTabs);
@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import type { AssignedTabs } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('query-assigned');
+  await page.evaluate(() => document.querySelector<AssignedTabs>("assigned-tabs")!.updateComplete);
+});
+
+test.describe("@queryAssignedElements / @queryAssignedNodes", () => {
+  test('read the elements assigned to a slot, filtered by the selector', async ({ page }) => {
+    const tabs = await page.evaluate(() => document.querySelector<AssignedTabs>("assigned-tabs")!.tabs.map(tab => tab.textContent));
+    expect(tabs).toEqual(["first", "second"]);
+  });
+
+  test('read every node of the default slot, text included', async ({ page }) => {
+    const text = await page.evaluate(() => document.querySelector<AssignedTabs>("assigned-tabs")!.content
+      .filter(node => node.nodeType === Node.TEXT_NODE)
+      .map(node => node.textContent!.trim())
+      .join(""));
+
+    expect(text).toBe("text content");
+  });
+
+  test('stay current when the slot content changes and re-render', async ({ page }) => {
+    const loads = await page.evaluate(() => {
+      const host = document.querySelector<AssignedTabs>("assigned-tabs")!;
+      const button = document.createElement("button");
+      button.slot = "tab";
+      button.textContent = "third";
+      host.append(button);
+      return host.loads;
+    });
+
+    await expect(page.locator("assigned-tabs p")).toHaveText("3 tabs");
+    const result = await page.evaluate(() => {
+      const host = document.querySelector<AssignedTabs>("assigned-tabs")!;
+      return { tabs: host.tabs.map(tab => tab.textContent), loads: host.loads };
+    });
+    expect(result.tabs).toEqual(["first", "second", "third"]);
+    expect(result.loads).toBe(loads + 1);
+  });
+
+  test('keep the array when the content did not change', async ({ page }) => {
+    const same = await page.evaluate(async () => {
+      const host = document.querySelector<AssignedTabs>("assigned-tabs")!;
+      const tabs = host.tabs;
+      host.requestUpdate();
+      await host.updateComplete;
+      return host.tabs === tabs;
+    });
+
+    expect(same).toBe(true);
+  });
+});
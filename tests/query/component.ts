@@ -0,0 +1,38 @@
+import { CustomElement, html, property, query, queryAll } from "@papit/core";
+
+declare global {
+  interface Window {
+    QUERY_LOADS: Array<string | null>;
+  }
+}
+window.QUERY_LOADS = [];
+
+export class QueryHost extends CustomElement {
+
+  @property({ rerender: true })
+  editing = false;
+
+  @property({ rerender: true })
+  items = ["a", "b"];
+
+  @query({
+    selector: "input",
+    load: input => window.QUERY_LOADS.push(input ? input.localName : null),
+  })
+  input!: HTMLInputElement | null;
+
+  @queryAll("li")
+  listItems!: HTMLLIElement[];
+
+  @queryAll({ selector: "li", cache: false })
+  liveItems!: HTMLLIElement[];
+
+  render() {
+    return html`
+      ${this.editing ? html`<input />` : html`<span>view</span>`}
+      <ul>${this.items.map(item => html`<li>${item}</li>`)}</ul>
+    `;
+  }
+}
+
+customElements.define("query-host", QueryHost);
@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+import type { QueryHost } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('query');
+  await page.evaluate(() => document.querySelector<QueryHost>("query-host")!.updateComplete);
+});
+
+test.describe("@query / @queryAll", () => {
+  test('picks up an element rendered later and clears a removed one', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const host = document.querySelector<QueryHost>("query-host")!;
+      const before = host.input;
+
+      host.editing = true;
+      await host.updateComplete;
+      const found = host.input === host.shadowRoot!.querySelector("input");
+
+      host.editing = false;
+      await host.updateComplete;
+      return { before, found, after: host.input, loaded: window.QUERY_LOADS };
+    });
+
+    expect(result).toEqual({ before: null, found: true, after: null, loaded: [null, "input", null] });
+  });
+
+  test('queryAll returns every match and follows renders', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const host = document.querySelector<QueryHost>("query-host")!;
+      const before = host.listItems.map(item => item.textContent);
+      const array = Array.isArray(host.listItems);
+
+      host.items = ["a", "b", "c"];
+      await host.updateComplete;
+      return { array, before, after: host.listItems.map(item => item.textContent) };
+    });
+
+    expect(result).toEqual({ array: true, before: ["a", "b"], after: ["a", "b", "c"] });
+  });
+
+  test('cache: false queries the current DOM on every access', async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const host = document.querySelector<QueryHost>("query-host")!;
+      // changed outside of rendering
+      host.shadowRoot!.querySelector("ul")!.append(document.createElement("li"));
+      return { live: host.liveItems.length, cached: host.listItems.length };
+    });
+
+    expect(result).toEqual({ live: 3, cached: 2 });
+  });
+});
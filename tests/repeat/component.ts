@@ -0,0 +1,20 @@
+import { CustomElement, html, property, repeat } from "@papit/core";
+
+export type Row = { id: number, label: string };
+
+export class RepeatList extends CustomElement {
+
+  @property({ rerender: true })
+  rows: Row[] = [
+    { id: 1, label: "one" },
+    { id: 2, label: "two" },
+    { id: 3, label: "three" },
+    { id: 4, label: "four" },
+  ];
+
+  render() {
+    return html`<ul>${repeat(this.rows, row => row.id, row => html`<li data-id=${row.id}><input aria-label=${row.label} /></li>`)}</ul>`;
+  }
+}
+
+customElements.define("repeat-list", RepeatList);
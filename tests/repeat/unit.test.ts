@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import type { RepeatList, Row } from './component';
+
+declare global {
+  interface Window {
+    ROW_NODES: Map<string, Element>;
+  }
+}
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('repeat');
+  await expect(page.locator("repeat-list li")).toHaveCount(4);
+
+  // remember the rendered row elements by their key
+  await page.evaluate(() => {
+    const list = document.querySelector<RepeatList>("repeat-list")!;
+    window.ROW_NODES = new Map(Array.from(list.shadowRoot!.querySelectorAll("li")).map(li => [li.dataset.id!, li]));
+  });
+});
+
+async function setRows(page: import('@playwright/test').Page, ids: number[]) {
+  await page.evaluate(async (ids) => {
+    const list = document.querySelector<RepeatList>("repeat-list")!;
+    const byId = new Map<number, Row>(list.rows.map(row => [row.id, row]));
+    list.rows = ids.map(id => byId.get(id) ?? { id, label: String(id) });
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }, ids);
+}
+
+// which rows are still the element rendered before
+function reused(page: import('@playwright/test').Page) {
+  return page.evaluate(() => {
+    const list = document.querySelector<RepeatList>("repeat-list")!;
+    return Array.from(list.shadowRoot!.querySelectorAll("li")).map(li => window.ROW_NODES.get(li.dataset.id!) === li);
+  });
+}
+
+test.describe("repeat", () => {
+  test('moves the existing elements when the order changes', async ({ page }) => {
+    await setRows(page, [4, 3, 2, 1]);
+
+    expect(await page.locator("repeat-list li").evaluateAll(items => items.map(item => item.getAttribute("data-id")))).toEqual(["4", "3", "2", "1"]);
+    expect(await reused(page)).toEqual([true, true, true, true]);
+  });
+
+  test('keeps the elements of remaining rows on insert and remove', async ({ page }) => {
+    await setRows(page, [5, 1, 3, 6, 4]);
+
+    expect(await page.locator("repeat-list li").evaluateAll(items => items.map(item => item.getAttribute("data-id")))).toEqual(["5", "1", "3", "6", "4"]);
+    expect(await reused(page)).toEqual([false, true, true, false, true]);
+  });
+
+  test('keeps focus and input state across a reorder', async ({ page }) => {
+    const input = page.getByRole("textbox", { name: "two" });
+    await input.fill("typed");
+    await input.focus();
+
+    await setRows(page, [3, 1, 4, 2]);
+
+    await expect(input).toBeFocused();
+    await expect(input).toHaveValue("typed");
+  });
+});
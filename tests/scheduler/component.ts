@@ -0,0 +1,55 @@
+import { ChangedProperties, CustomElement, html, property } from "@papit/core";
+
+declare global {
+  interface Window {
+    UPDATE_LOG: string[];
+  }
+}
+window.UPDATE_LOG = [];
+
+const describe = (changed: ChangedProperties) => Array.from(changed, ([key, old]) => `${String(key)}:${old}`).join(",");
+
+export class SchedulerChild extends CustomElement {
+
+  @property({ rerender: true })
+  value = "";
+
+  render() {
+    window.UPDATE_LOG.push(`render child ${this.value}`);
+    return html`<span>${this.value}</span>`;
+  }
+}
+customElements.define("scheduler-child", SchedulerChild);
+
+export class SchedulerParent extends CustomElement {
+
+  @property({ rerender: true })
+  first = "a";
+
+  @property({ rerender: true })
+  second = "b";
+
+  @property({ rerender: true })
+  blocked = false;
+
+  renders = 0;
+
+  shouldUpdate(changed: ChangedProperties) {
+    return !this.blocked || changed.has("blocked");
+  }
+
+  willUpdate(changed: ChangedProperties) {
+    window.UPDATE_LOG.push(`willUpdate ${describe(changed)}`);
+  }
+
+  updated(changed: ChangedProperties) {
+    window.UPDATE_LOG.push(`updated ${describe(changed)}`);
+  }
+
+  render() {
+    this.renders++;
+    window.UPDATE_LOG.push("render parent");
+    return html`<p>${this.first}${this.second}</p><scheduler-child .value=${this.first}></scheduler-child>`;
+  }
+}
+customElements.define("scheduler-parent", SchedulerParent);
@@ -0,0 +1,160 @@
+import { test, expect } from '@playwright/test';
+import { Scheduler, Updatable } from "@functions/scheduler/scheduler";
+import type { SchedulerChild, SchedulerParent } from './component';
+
+// a scheduler flushed by hand
+function manual() {
+  const flushes: Array<() => void> = [];
+  const scheduler = new Scheduler(flush => flushes.push(flush));
+  const flush = () => flushes.splice(0).forEach(run => run());
+  return { scheduler, flushes, flush };
+}
+
+test.describe("scheduler", () => {
+  test('merges requests until the flush', () => {
+    const { scheduler, flushes, flush } = manual();
+    let updates = 0;
+    const updatable: Updatable = { performUpdate: () => updates++ };
+
+    scheduler.enqueue(updatable);
+    scheduler.enqueue(updatable);
+    expect(flushes.length).toBe(1);
+    expect(updates).toBe(0);
+
+    flush();
+    expect(updates).toBe(1);
+  });
+
+  test('runs updates requested during the flush in the same flush', () => {
+    const { scheduler, flush } = manual();
+    const log: string[] = [];
+    const child: Updatable = { performUpdate: () => log.push("child") };
+    const parent: Updatable = {
+      performUpdate: () => {
+        log.push("parent");
+        scheduler.enqueue(child);
+      },
+    };
+
+    scheduler.enqueue(parent);
+    flush();
+
+    expect(log).toEqual(["parent", "child"]);
+    flush();
+    expect(log).toEqual(["parent", "child"]);
+  });
+
+  test('reports a failing update and runs the others', () => {
+    const { scheduler, flush } = manual();
+    const errors: unknown[][] = [];
+    const error = console.error;
+    console.error = (...args: unknown[]) => errors.push(args);
+
+    let updated = false;
+    try {
+      scheduler.enqueue({ performUpdate: () => { throw new Error("broken"); } });
+      scheduler.enqueue({ performUpdate: () => updated = true });
+      flush();
+    }
+    finally {
+      console.error = error;
+    }
+
+    expect(updated).toBe(true);
+    expect(errors.map(args => args[0])).toEqual(["[error] core: update failed"]);
+  });
+
+  test('moves an updatable requesting updates in a loop to a later task', async () => {
+    const { scheduler, flush } = manual();
+    const errors: unknown[] = [];
+    const error = console.error;
+    console.error = (message: unknown) => errors.push(message);
+
+    let updates = 0;
+    class Looping implements Updatable {
+      performUpdate() {
+        updates++;
+        scheduler.enqueue(this);
+      }
+    }
+
+    try {
+      scheduler.enqueue(new Looping());
+      flush();
+      expect(updates).toBe(100);
+
+      await new Promise(resolve => setTimeout(resolve));
+      flush();
+      expect(updates).toBe(200);
+    }
+    finally {
+      console.error = error;
+    }
+
+    expect(errors).toEqual(["[error] core: Looping updated 100 times in one flush, it keeps requesting updates (in updated() or a watcher?), the next update runs in a later task"]);
+  });
+});
+
+test.describe("updates in components", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('scheduler');
+    await page.evaluate(() => document.querySelector<SchedulerParent>("scheduler-parent")!.updateComplete);
+  });
+
+  test('batches property changes into one update', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const parent = document.querySelector<SchedulerParent>("scheduler-parent")!;
+      const before = parent.renders;
+      parent.first = "x";
+      parent.second = "y";
+      const rendered = await parent.updateComplete;
+      return { rendered, renders: parent.renders - before, text: parent.shadowRoot!.querySelector("p")!.textContent };
+    });
+
+    expect(result).toEqual({ rendered: true, renders: 1, text: "xy" });
+  });
+
+  test('passes the changed properties and their old values to the hooks', async ({ page }) => {
+    const log = await page.evaluate(async () => {
+      const parent = document.querySelector<SchedulerParent>("scheduler-parent")!;
+      window.UPDATE_LOG = [];
+      parent.first = "x";
+      parent.second = "y";
+      await parent.updateComplete;
+      return window.UPDATE_LOG.filter(entry => !entry.startsWith("render"));
+    });
+
+    expect(log).toEqual(["willUpdate first:a,second:b", "updated first:a,second:b"]);
+  });
+
+  test('shouldUpdate can skip an update', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const parent = document.querySelector<SchedulerParent>("scheduler-parent")!;
+      parent.blocked = true;
+      await parent.updateComplete;
+
+      const before = parent.renders;
+      parent.first = "skipped";
+      const rendered = await parent.updateComplete;
+      return { rendered, renders: parent.renders - before };
+    });
+
+    expect(result).toEqual({ rendered: false, renders: 0 });
+  });
+
+  test('renders the parent before its children in one flush', async ({ page }) => {
+    const log = await page.evaluate(async () => {
+      const parent = document.querySelector<SchedulerParent>("scheduler-parent")!;
+      const child = parent.shadowRoot!.querySelector<SchedulerChild>("scheduler-child")!;
+      window.UPDATE_LOG = [];
+      // queued before the parent, still rendered after it with the value the parent passes down
+      child.requestUpdate();
+      parent.first = "z";
+      await parent.updateComplete;
+      await child.updateComplete;
+      return window.UPDATE_LOG.filter(entry => entry.startsWith("render"));
+    });
+
+    expect(log).toEqual(["render parent", "render child z"]);
+  });
+});
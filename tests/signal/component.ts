@@ -0,0 +1,25 @@
+import { CustomElement, html, signal } from "@papit/core";
+
+export const count = signal(0);
+export const label = signal("first");
+
+declare global {
+  interface Window {
+    SIGNALS: { count: typeof count, label: typeof label };
+  }
+}
+window.SIGNALS = { count, label };
+
+export class SignalHost extends CustomElement {
+  renders = 0;
+
+  render() {
+    this.renders++;
+    return html`
+      <p data-testid="count">${count.value}</p>
+      <p data-testid="label">${label}</p>
+    `;
+  }
+}
+
+customElements.define("signal-host", SignalHost);
@@ -0,0 +1,130 @@
+import { test, expect } from '@playwright/test';
+import { signal, computed, effect } from "@functions/signal/signal";
+import type { SignalHost } from './component';
+
+test.describe("signals", () => {
+  test('effect runs again after a signal it read changes', () => {
+    const count = signal(1);
+    const runs: number[] = [];
+    const stop = effect(() => { runs.push(count.value); });
+
+    count.value = 2;
+    count.value = 2;
+    stop();
+    count.value = 3;
+
+    expect(runs).toEqual([1, 2]);
+  });
+
+  test('effect cleanup runs before the next run and on stop', () => {
+    const count = signal(0);
+    const log: string[] = [];
+    const stop = effect(() => {
+      const value = count.value;
+      log.push(`run ${value}`);
+      return () => log.push(`cleanup ${value}`);
+    });
+
+    count.value = 1;
+    stop();
+
+    expect(log).toEqual(["run 0", "cleanup 0", "run 1", "cleanup 1"]);
+  });
+
+  test('computed is lazy and cached until a dependency changes', () => {
+    const count = signal(1);
+    let computations = 0;
+    const double = computed(() => (computations++, count.value * 2));
+
+    expect(computations).toBe(0);
+    expect(double.value).toBe(2);
+    expect(double.value).toBe(2);
+    expect(computations).toBe(1);
+
+    count.value = 2;
+    expect(double.value).toBe(4);
+    expect(computations).toBe(2);
+    expect(() => (double as { value: number }).value = 1).toThrow("[error] signal: a computed value cannot be assigned");
+  });
+
+  test('only tracks the signals read in the last run', () => {
+    const useA = signal(true);
+    const a = signal("a");
+    const b = signal("b");
+    const runs: string[] = [];
+    const stop = effect(() => { runs.push(useA.value ? a.value : b.value); });
+
+    useA.value = false;
+    a.value = "a2";
+    b.value = "b2";
+    stop();
+
+    expect(runs).toEqual(["a", "b", "b2"]);
+  });
+
+  test('computed releases its sources when its last subscriber goes', () => {
+    const count = signal(1);
+    let computations = 0;
+    const double = computed(() => (computations++, count.value * 2));
+
+    const stop = effect(() => { double.value; });
+    stop();
+    count.value = 2;
+    expect(computations).toBe(1);
+
+    expect(double.value).toBe(4);
+    expect(computations).toBe(2);
+  });
+
+  test('subscribe calls next with the current value and after each change', () => {
+    const count = signal(1);
+    const values: number[] = [];
+    const unsubscribe = count.subscribe(value => values.push(value));
+
+    count.value = 2;
+    unsubscribe();
+    count.value = 3;
+
+    expect(values).toEqual([1, 2]);
+  });
+});
+
+test.describe("signals in components", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('signal');
+  });
+
+  test('a signal read in render updates the component', async ({ page }) => {
+    await expect(page.getByTestId("count")).toHaveText("0");
+    await page.evaluate(() => window.SIGNALS.count.value = 5);
+    await expect(page.getByTestId("count")).toHaveText("5");
+  });
+
+  test('a signal bound directly updates its part without a render', async ({ page }) => {
+    await expect(page.getByTestId("label")).toHaveText("first");
+    const renders = await page.evaluate(async () => {
+      const host = document.querySelector<SignalHost>("signal-host")!;
+      const before = host.renders;
+      window.SIGNALS.label.value = "second";
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return host.renders - before;
+    });
+
+    expect(renders).toBe(0);
+    await expect(page.getByTestId("label")).toHaveText("second");
+  });
+
+  test('a disconnected component releases its signals', async ({ page }) => {
+    await expect(page.getByTestId("count")).toHaveText("0");
+    const renders = await page.evaluate(async () => {
+      const host = document.querySelector<SignalHost>("signal-host")!;
+      host.remove();
+      const before = host.renders;
+      window.SIGNALS.count.value = 10;
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return host.renders - before;
+    });
+
+    expect(renders).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { CustomElement } from "@element/custom-element";
+import { html } from "@html/html";
+import { css } from "@functions/css/css";
+import { property } from "@decorators/property/decorator";
+
+// the properties are declared through interface merging, class fields would shadow the accessors
+export interface ServerCounter {
+  count: number;
+  label: string;
+  disabled: boolean;
+}
+export class ServerCounter extends CustomElement {
+  static styles = css`:host { display: block; }`;
+
+  render() {
+    return html`<div><h2 title=${this.label}>${this.label}: ${this.count}</h2><button ?disabled=${this.disabled} onclick=${() => this.count++}>+1</button></div>`;
+  }
+}
+// applied the way `experimentalDecorators` calls them: (prototype, key)
+property({ type: Number, attribute: true })(ServerCounter.prototype, "count");
+property({ attribute: true })(ServerCounter.prototype, "label");
+property(ServerCounter.prototype, "disabled");
+customElements.define("server-counter", ServerCounter);
+
+export interface ServerList {
+  items: string[];
+}
+export class ServerList extends CustomElement {
+  render() {
+    return html`<h3>list</h3>${this.items.map(item => html`<li>${item}</li>`)}`;
+  }
+}
+customElements.define("server-list", ServerList);
+
+export class ServerLight extends CustomElement {
+  constructor() {
+    super({ shadow: false });
+  }
+
+  render() {
+    return html`<p>light</p>`;
+  }
+}
+customElements.define("server-light", ServerLight);
@@ -0,0 +1,4 @@
+import { installDomShim } from "@functions/ssr/dom-shim";
+
+// must be evaluated before the components, their classes extend HTMLElement
+installDomShim();
@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+import "./shim";
+import "./component";
+import { renderToString } from "@functions/ssr/render";
+
+// runs in node, the dom shim stands in for HTMLElement and customElements
+
+test.describe("renderToString", () => {
+  test("renders the shadow root as a declarative template", () => {
+    const markup = renderToString("server-counter", { count: 5, label: "Count" }, { hydratable: false });
+
+    expect(markup).toBe(
+      '<server-counter count="5" label="Count"><template shadowrootmode="open">'
+      + '<div><h2 title="Count">Count: 5</h2><button>+1</button></div>'
+      + '<style>:host { display: block; }</style>'
+      + '</template></server-counter>'
+    );
+  });
+
+  test("wraps values in hydration markers", () => {
+    const markup = renderToString("server-counter", { count: 1, label: "a" }, { includeHost: false });
+
+    expect(markup).toContain('<h2 title="a"><!--marker-start-->a<!--marker-->: <!--marker-start-->1<!--marker--></h2>');
+  });
+
+  test("escapes text and attribute values", () => {
+    const markup = renderToString("server-counter", { count: 0, label: `<b>"x"</b>` }, { hydratable: false });
+
+    expect(markup).toContain('title="&lt;b&gt;&quot;x&quot;&lt;/b&gt;"');
+    expect(markup).toContain("&lt;b&gt;\"x\"&lt;/b&gt;: 0");
+  });
+
+  test("renders boolean bindings as a bare attribute and drops events", () => {
+    const markup = renderToString("server-counter", { count: 0, label: "", disabled: true }, { hydratable: false });
+
+    expect(markup).toContain("<button disabled>+1</button>");
+    expect(markup).not.toContain("onclick");
+  });
+
+  test("bounds multi-root templates and marks list items", () => {
+    const markup = renderToString("server-list", { items: ["a", "b"] }, { includeHost: false });
+
+    expect(markup).toBe(
+      '<template shadowrootmode="open"><!--template-start--><h3>list</h3>'
+      + '<!--marker-start--><!--marker-start--><li><!--marker-start-->a<!--marker--></li><!--item-marker-->'
+      + '<!--marker-start--><li><!--marker-start-->b<!--marker--></li><!--item-marker--><!--list-marker-->'
+      + '<!--template-end--></template>'
+    );
+  });
+
+  test("writes the nonce on the style element", () => {
+    const markup = renderToString("server-counter", { count: 0, label: "" }, { nonce: "abc" });
+
+    expect(markup).toContain('<style nonce="abc">');
+  });
+
+  test("throws for light DOM components and unknown tags", () => {
+    expect(() => renderToString("server-light")).toThrow("[error] ssr: <server-light> renders into light DOM");
+    expect(() => renderToString("server-unknown")).toThrow('[error] ssr: "server-unknown" is not a defined custom element');
+  });
+});
@@ -0,0 +1,22 @@
+import { CustomElement, html, precompiled, property, unsafeHTML } from "@papit/core";
+
+declare global {
+  interface Window {
+    TEMPLATES: { html: typeof html, precompiled: typeof precompiled };
+  }
+}
+window.TEMPLATES = { html, precompiled };
+
+export class HtmlContent extends CustomElement {
+  @property({ rerender: true }) content = "<b>bold</b>";
+
+  render() {
+    return html`
+      <p data-testid="text" title=${this.content}>${this.content}</p>
+      <p data-testid="markup">${unsafeHTML(this.content)}</p>
+      <p data-testid="after">${"after"}</p>
+    `;
+  }
+}
+
+customElements.define("html-content", HtmlContent);
@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { setStyleNonce, getStyleNonce } from "@functions/css/css";
+import { unsafeHTML, isUnsafeHTML } from "@html/unsafe-html";
+import type { HtmlContent } from './component';
+
+test.describe("unsafeHTML and the style nonce", () => {
+  test('unsafeHTML wraps markup in a recognisable value', () => {
+    const value = unsafeHTML("<b>bold</b>");
+
+    expect(isUnsafeHTML(value)).toBe(true);
+    expect(isUnsafeHTML("<b>bold</b>")).toBe(false);
+    expect(String(value)).toBe("<b>bold</b>");
+  });
+
+  test('setStyleNonce sets the nonce until it is cleared', () => {
+    setStyleNonce("abc");
+    expect(getStyleNonce()).toBe("abc");
+
+    setStyleNonce(null);
+    expect(getStyleNonce()).toBeNull();
+  });
+});
+
+test.describe("safe html handling", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('unsafe-html');
+  });
+
+  test('strings are inserted as text, unsafeHTML as markup', async ({ page }) => {
+    await expect(page.getByTestId("text")).toHaveText("<b>bold</b>");
+    await expect(page.getByTestId("text").locator("b")).toHaveCount(0);
+    await expect(page.getByTestId("markup").locator("b")).toHaveText("bold");
+  });
+
+  test('content spelling out a marker does not shift the values', async ({ page }) => {
+    await page.evaluate(async () => {
+      const element = document.querySelector<HtmlContent>("html-content")!;
+      element.content = "<!--marker--><!--marker-start-->";
+      await element.updateComplete;
+    });
+
+    await expect(page.getByTestId("text")).toHaveText("<!--marker--><!--marker-start-->");
+    await expect(page.getByTestId("text")).toHaveAttribute("title", "<!--marker--><!--marker-start-->");
+    await expect(page.getByTestId("after")).toHaveText("after");
+  });
+
+  test('html and precompiled only accept the strings of a template literal', async ({ page }) => {
+    const errors = await page.evaluate(() => {
+      const attempts = [
+        () => window.TEMPLATES.html(["<p>", "</p>"] as unknown as TemplateStringsArray, "value"),
+        () => window.TEMPLATES.html(Object.freeze(["<p></p>"]) as unknown as TemplateStringsArray),
+        () => window.TEMPLATES.precompiled([])(["<p></p>"] as unknown as TemplateStringsArray),
+      ];
+      return attempts.map(attempt => {
+        try {
+          attempt();
+          return null;
+        }
+        catch (error) {
+          return (error as Error).message;
+        }
+      });
+    });
+
+    expect(errors).toEqual([
+      "[error] html: html only accepts the strings of a template literal, use it as a tag",
+      "[error] html: html only accepts the strings of a template literal, use it as a tag",
+      "[error] html: precompiled only accepts the strings of a template literal, use it as a tag",
+    ]);
+  });
+});
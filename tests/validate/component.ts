@@ -0,0 +1,16 @@
+import { CustomElement, html } from "@papit/core";
+
+export class InvalidTemplate extends CustomElement {
+  render() {
+    return html`<div><!-- ${"note"} --><p class=a${"b"}>text</p></div>`;
+  }
+}
+
+export class ValidTemplate extends CustomElement {
+  render() {
+    return html`<div class="a ${"b"}" title=${"c"} ?hidden=${false} @click=${() => {}}><b>${"d"}</b></div>`;
+  }
+}
+
+customElements.define("invalid-template", InvalidTemplate);
+customElements.define("valid-template", ValidTemplate);
@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { validateTemplate } from "@functions/html/validate";
+import type { InvalidTemplate } from './component';
+
+// collects the strings of a template literal, like `html` receives them
+const strings = (strings: TemplateStringsArray, ..._values: unknown[]) => strings;
+
+function captureErrors(fn: () => void) {
+  const errors: string[] = [];
+  const error = console.error;
+  console.error = (message: string) => errors.push(message);
+  try {
+    fn();
+  }
+  finally {
+    console.error = error;
+  }
+  return errors;
+}
+
+test.describe("validateTemplate", () => {
+  test('names the positions a value cannot bind', () => {
+    const host = { localName: "x-card" } as HTMLElement;
+    const errors = captureErrors(() => {
+      validateTemplate(strings`<${0}>a</div>`, 0, null);
+      validateTemplate(strings`<div ${0}>a</div>`, 0, null);
+      validateTemplate(strings`<div><!-- note ${0} --></div>`, 0, null);
+      validateTemplate(strings`<div><textarea>${0}</textarea></div>`, 0, host);
+      validateTemplate(strings`<div class=a${0}>a</div>`, 0, null);
+      validateTemplate(strings`<div class= ${0}>a</div>`, 0, null);
+    });
+
+    expect(errors).toEqual([
+      "[error] html: invalid template\n  a value as tag name is not supported:\n    <${…}>a</div>",
+      "[error] html: invalid template\n  a value as attribute name is not supported:\n    <div ${…}>a</div>",
+      "[error] html: invalid template\n  a value inside a comment is not supported:\n    <div><!-- note ${…} --></div>",
+      "[error] html: invalid template in <x-card>\n  a value inside <textarea> is not supported, it is read as text:\n    <div><textarea>${…}</textarea></div>",
+      "[error] html: invalid template\n  a value inside an unquoted attribute value is not supported, quote the value:\n    <div class=a${…}>a</div>",
+      "[error] html: invalid template\n  a value has to follow `=` directly:\n    <div class= ${…}>a</div>",
+    ]);
+  });
+
+  test('reports an attribute value that is never closed', () => {
+    const errors = captureErrors(() => validateTemplate(strings`<div class="${0}>a</div>`, 1, null));
+
+    expect(errors).toEqual(['[error] html: invalid template\n  an attribute value is never closed:\n    <div class="${…}>a</div>']);
+  });
+
+  test('reports a value count the bindings do not match', () => {
+    const errors = captureErrors(() => validateTemplate(strings`<p>${0}</p><b>${0}</b>`, 1, null));
+
+    expect(errors).toEqual(["[error] html: invalid template\n  the template has 2 values but 1 binding was found:\n    <p>${…}</p><b>${…}</b>"]);
+  });
+
+  test('accepts bindable positions and checks each template once', () => {
+    const invalid = strings`<div ${0}></div>`;
+    const errors = captureErrors(() => {
+      validateTemplate(strings`<div class="a ${0}" title=${0} ?hidden=${0} @click=${0}><style>p{}</style><b>${0}</b></div>`, 5, null);
+      validateTemplate(invalid, 0, null);
+      validateTemplate(invalid, 0, null);
+    });
+
+    expect(errors).toHaveLength(1);
+  });
+});
+
+test.describe("template checks in components", () => {
+  test('an invalid template is logged once with the component and call site', async ({ page }) => {
+    const errors: string[] = [];
+    page.on("console", message => {
+      if (message.type() === "error") errors.push(message.text());
+    });
+    await page.goto('validate');
+    await expect(page.locator("valid-template b")).toHaveText("d");
+
+    await page.evaluate(async () => {
+      const element = document.querySelector<InvalidTemplate>("invalid-template")!;
+      element.requestUpdate();
+      await element.updateComplete;
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("[error] html: invalid template in <invalid-template>");
+    expect(errors[0]).toContain("a value inside a comment is not supported");
+    expect(errors[0]).toContain("a value inside an unquoted attribute value is not supported, quote the value");
+    expect(errors[0]).toMatch(/\n  at \S/);
+  });
+});
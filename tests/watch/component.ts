@@ -0,0 +1,32 @@
+import { CustomElement, html, property, watch } from "@papit/core";
+
+export class WatchHost extends CustomElement {
+  log: string[] = [];
+
+  @property({ type: Number })
+  count = 0;
+
+  @property
+  label = "start";
+
+  @watch("count", "label")
+  onBatched(oldValue: unknown, newValue: unknown, name: PropertyKey) {
+    this.log.push(`batched ${String(name)} ${oldValue} -> ${newValue}`);
+  }
+
+  @watch("count", { sync: true })
+  onSync(oldValue: unknown, newValue: unknown) {
+    this.log.push(`sync ${oldValue} -> ${newValue}`);
+  }
+
+  @watch("label", { waitUntilFirstUpdate: true })
+  onLabel(oldValue: unknown, newValue: unknown) {
+    this.log.push(`after first update ${oldValue} -> ${newValue}`);
+  }
+
+  render() {
+    return html`<p>${this.label} ${this.count}</p>`;
+  }
+}
+
+customElements.define("watch-host", WatchHost);
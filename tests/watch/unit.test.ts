@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+import type { WatchHost } from './component';
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('watch');
+  await page.evaluate(() => document.querySelector<WatchHost>("watch-host")!.updateComplete);
+});
+
+test.describe("@watch", () => {
+  test('the initial values count as a change from undefined', async ({ page }) => {
+    const log = await page.evaluate(() => document.querySelector<WatchHost>("watch-host")!.log);
+
+    expect(log).toContain("sync undefined -> 0");
+    expect(log).toContain("batched count undefined -> 0");
+    expect(log).toContain("batched label undefined -> start");
+    expect(log.some(entry => entry.startsWith("after first update"))).toBe(false);
+  });
+
+  test('batched watchers run once per update with the first old value', async ({ page }) => {
+    const log = await page.evaluate(async () => {
+      const host = document.querySelector<WatchHost>("watch-host")!;
+      host.log = [];
+      host.count = 1;
+      host.count = 2;
+      host.label = "next";
+      await host.updateComplete;
+      return host.log;
+    });
+
+    expect(log).toEqual([
+      "sync 0 -> 1",
+      "sync 1 -> 2",
+      "batched count 0 -> 2",
+      "batched label start -> next",
+      "after first update start -> next",
+    ]);
+  });
+
+  test('changes render through the watched properties', async ({ page }) => {
+    await page.evaluate(() => {
+      const host = document.querySelector<WatchHost>("watch-host")!;
+      host.count = 3;
+      host.label = "watched";
+    });
+
+    await expect(page.locator("watch-host p")).toHaveText("watched 3");
+  });
+});